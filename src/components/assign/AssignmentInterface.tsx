@@ -7,6 +7,8 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { toast } from "sonner";
+import type { PanoramaLink } from "@/lib/room-links";
+import { roomCode, roomName } from "@/lib/room-fields";
 
 interface Room {
   id: string;
@@ -17,19 +19,14 @@ interface Panorama {
   nodeId: string;
   title: string;
   floor?: string;
-}
-
-interface Assignment {
-  roomId: string;
-  panoramaIds: string[];
+  roomId?: string;
 }
 
 interface AssignmentInterfaceProps {
   rooms: Room[];
   headers: { row1: string[]; row2: string[] };
-  assignments: Assignment[];
   panoramas: Panorama[];
-  onAssignmentUpdate: (assignments: Assignment[]) => void;
+  onAssign: (links: PanoramaLink[]) => void;
   onRequestUpload?: () => void;
 }
 
@@ -37,9 +34,8 @@ interface AssignmentInterfaceProps {
 export const AssignmentInterface = ({ 
   rooms, 
   headers, 
-  assignments, 
   panoramas,
-  onAssignmentUpdate,
+  onAssign,
   onRequestUpload,
 }: AssignmentInterfaceProps) => {
   const [selectedRooms, setSelectedRooms] = useState<string[]>([]);
@@ -50,11 +46,11 @@ export const AssignmentInterface = ({
   const filteredRooms = useMemo(() => {
     if (!roomSearch) return rooms;
     return rooms.filter(room => {
-      const roomName = room.data[1]?.toString().toLowerCase() || '';
-      const roomId = room.data[0]?.toString().toLowerCase() || '';
-      return roomName.includes(roomSearch.toLowerCase()) || roomId.includes(roomSearch.toLowerCase());
+      const name = roomName(room, headers).toLowerCase();
+      const code = roomCode(room, headers).toLowerCase();
+      return name.includes(roomSearch.toLowerCase()) || code.includes(roomSearch.toLowerCase());
     });
-  }, [rooms, roomSearch]);
+  }, [rooms, headers, roomSearch]);
 
 const filteredPanoramas = useMemo(() => {
     if (!panoSearch) return panoramas;
@@ -64,40 +60,39 @@ const filteredPanoramas = useMemo(() => {
     );
   }, [panoSearch, panoramas]);
 
+  // Rooms with at least one panorama, for the summary
+  const assignments = useMemo(() => rooms
+    .map(room => ({ roomId: room.id, panoramaIds: panoramas.filter(p => p.roomId === room.id).map(p => p.nodeId) }))
+    .filter(a => a.panoramaIds.length > 0), [rooms, panoramas]);
+
   const getAssignmentCount = (roomId: string) => {
-    const assignment = assignments.find(a => a.roomId === roomId);
-    return assignment?.panoramaIds.length || 0;
+    return panoramas.filter(p => p.roomId === roomId).length;
   };
 
   const autoMatch = () => {
-    const newAssignments: Assignment[] = [...assignments];
+    // A panorama belongs to one room, so the first matching room wins
+    const links = new Map<string, string>();
     let matchCount = 0;
 
     rooms.forEach(room => {
       const roomId = room.id;
-      const roomCode = room.data[0]?.toString().toUpperCase() || '';
+      const code = roomCode(room, headers).toUpperCase();
       
 // Find matching panoramas
       const matchingPanos = panoramas.filter(pano => {
         const nodeId = pano.nodeId.toUpperCase();
-        return nodeId.includes(roomCode) || roomCode.includes((nodeId.split('-')[1] || ''));
+        return nodeId.includes(code) || code.includes((nodeId.split('-')[1] || ''));
       });
 
       if (matchingPanos.length > 0) {
-        const existingIndex = newAssignments.findIndex(a => a.roomId === roomId);
-        if (existingIndex >= 0) {
-          newAssignments[existingIndex].panoramaIds = matchingPanos.map(p => p.nodeId);
-        } else {
-          newAssignments.push({
-            roomId,
-            panoramaIds: matchingPanos.map(p => p.nodeId),
-          });
-        }
+        matchingPanos.forEach(pano => {
+          if (!links.has(pano.nodeId)) links.set(pano.nodeId, roomId);
+        });
         matchCount++;
       }
     });
 
-    onAssignmentUpdate(newAssignments);
+    onAssign(Array.from(links, ([nodeId, roomKey]) => ({ nodeId, roomKey })));
     toast.success(`Auto-matched ${matchCount} rooms to panoramas`);
   };
 
@@ -107,27 +102,17 @@ const filteredPanoramas = useMemo(() => {
       return;
     }
 
-    const newAssignments = [...assignments];
-    
-    selectedRooms.forEach(roomId => {
-      const existingIndex = newAssignments.findIndex(a => a.roomId === roomId);
-      if (existingIndex >= 0) {
-        // Merge with existing assignments
-        const existing = new Set(newAssignments[existingIndex].panoramaIds);
-        selectedPanoramas.forEach(panoId => existing.add(panoId));
-        newAssignments[existingIndex].panoramaIds = Array.from(existing);
-      } else {
-        newAssignments.push({
-          roomId,
-          panoramaIds: [...selectedPanoramas],
-        });
-      }
-    });
+    if (selectedRooms.length > 1) {
+      toast.error("A panorama belongs to one room - select a single room");
+      return;
+    }
 
-    onAssignmentUpdate(newAssignments);
+    const [roomId] = selectedRooms;
+    onAssign(selectedPanoramas.map(nodeId => ({ nodeId, roomKey: roomId })));
     setSelectedRooms([]);
     setSelectedPanoramas([]);
-    toast.success(`Assigned ${selectedPanoramas.length} panoramas to ${selectedRooms.length} rooms`);
+    const room = rooms.find(r => r.id === roomId);
+    toast.success(`Assigned ${selectedPanoramas.length} panoramas to ${(room && roomName(room, headers)) || roomId}`);
   };
 
   return (
@@ -197,10 +182,10 @@ const filteredPanoramas = useMemo(() => {
                     <Checkbox checked={isSelected} />
                     <div className="flex-1 min-w-0">
                       <div className="font-medium text-sm truncate">
-                        {room.data[1] || 'Unnamed Room'}
+                        {roomName(room, headers) || 'Unnamed Room'}
                       </div>
                       <div className="text-xs text-muted-foreground font-mono">
-                        {room.data[0]}
+                        {roomCode(room, headers)}
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
@@ -291,10 +276,10 @@ const filteredPanoramas = useMemo(() => {
                 return (
                   <div key={assignment.roomId} className="border rounded-lg p-3">
                     <div className="font-medium text-sm mb-2">
-                      {room.data[1] || 'Unnamed Room'}
+                      {roomName(room, headers) || 'Unnamed Room'}
                     </div>
                     <div className="text-xs text-muted-foreground mb-2 font-mono">
-                      {room.data[0]}
+                      {roomCode(room, headers)}
                     </div>
                     <Separator className="my-2" />
                     <div className="space-y-1">
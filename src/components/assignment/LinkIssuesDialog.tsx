@@ -0,0 +1,51 @@
+import { Link2Off, AlertTriangle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { LinkIssue } from "@/lib/room-links";
+
+interface LinkIssuesDialogProps {
+  open: boolean;
+  issues: LinkIssue[];
+  onOpenChange: (open: boolean) => void;
+}
+
+export const LinkIssuesDialog = ({ open, issues, onOpenChange }: LinkIssuesDialogProps) => {
+  const orphans = issues.filter(i => i.kind === "orphan").length;
+  const conflicts = issues.length - orphans;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Room Link Check</DialogTitle>
+          <DialogDescription>
+            {issues.length === 0
+              ? "Spreadsheet rooms, floor plan polygons and panoramas are consistent."
+              : `${orphans} orphaned and ${conflicts} conflicting link${conflicts !== 1 ? 's' : ''}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {issues.length > 0 && (
+          <ScrollArea className="h-96 pr-3">
+            <div className="space-y-2">
+              {issues.map((issue, index) => (
+                <div key={index} className="flex items-start space-x-3 border rounded-lg p-3 text-sm">
+                  {issue.kind === "orphan" ? (
+                    <Link2Off className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                  ) : (
+                    <AlertTriangle className="h-4 w-4 mt-0.5 text-amber-500 flex-shrink-0" />
+                  )}
+                  <span className="flex-1">{issue.message}</span>
+                  <Badge variant={issue.kind === "orphan" ? "outline" : "secondary"} className="text-xs">
+                    {issue.kind === "orphan" ? "Orphaned" : "Conflict"}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,5 +1,5 @@
 import { useState, useMemo } from "react";
-import { Search, Link2, MapPin, Database, Eye, Check, AlertTriangle } from "lucide-react";
+import { Search, Link2, MapPin, Database, Eye, Check, AlertTriangle, Tags } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,6 +8,10 @@ import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { toast } from "sonner";
+import { LevelSwitcher } from "@/components/floorplan/LevelSwitcher";
+import { linksFromLabels } from "@/lib/plan-labels";
+import { panoramaInPolygon, roomDisplayName, type PolygonLink } from "@/lib/room-links";
+import type { PanoramaItem, PlanLabel } from "@/types/project";
 
 interface Room {
   id: string;
@@ -28,24 +32,34 @@ interface FloorPlanRoom {
 
 interface FloorPlan {
   id: string;
+  level: string;
   imageUrl: string;
   width: number;
   height: number;
   rooms: FloorPlanRoom[];
+  labels?: PlanLabel[];
 }
 
 interface RoomDataAssignmentProps {
   rooms: Room[];
   headers: { row1: string[]; row2: string[] };
   floorPlan: FloorPlan | null;
-  onFloorPlanRoomsUpdate: (rooms: FloorPlanRoom[]) => void;
+  floors?: FloorPlan[];
+  onFloorChange?: (floorId: string) => void;
+  panoramas?: PanoramaItem[];
+  onLinkPolygon: (polygonId: string, dataRoomId: string | null, name?: string) => void;
+  onLinkPolygons?: (links: PolygonLink[]) => void;
 }
 
 export const RoomDataAssignmentInterface = ({
   rooms,
   headers,
   floorPlan,
-  onFloorPlanRoomsUpdate
+  floors = [],
+  onFloorChange,
+  panoramas = [],
+  onLinkPolygon,
+  onLinkPolygons
 }: RoomDataAssignmentProps) => {
   const [selectedDataRoom, setSelectedDataRoom] = useState<string | null>(null);
   const [selectedFloorPlanRoom, setSelectedFloorPlanRoom] = useState<string | null>(null);
@@ -72,10 +86,12 @@ export const RoomDataAssignmentInterface = ({
     });
   }, [floorPlan, floorPlanSearch]);
 
+  // Data rooms linked on any level count as assigned
   const assignedDataIds = useMemo(() => {
-    if (!floorPlan) return new Set();
-    return new Set(floorPlan.rooms.map(room => room.assignedDataId).filter(Boolean));
-  }, [floorPlan]);
+    if (!floorPlan) return new Set<string>();
+    const allFloorRooms = floors.length > 0 ? floors.flatMap(f => f.rooms) : floorPlan.rooms;
+    return new Set(allFloorRooms.map(room => room.assignedDataId).filter((id): id is string => !!id));
+  }, [floorPlan, floors]);
 
   const handleAssignRoom = () => {
     if (!selectedDataRoom || !selectedFloorPlanRoom || !floorPlan) {
@@ -84,30 +100,32 @@ export const RoomDataAssignmentInterface = ({
     }
 
     const dataRoom = rooms.find(r => r.id === selectedDataRoom);
-    const roomName = dataRoom?.data[1] || dataRoom?.data[0] || selectedDataRoom;
+    const roomName = dataRoom ? roomDisplayName(dataRoom, headers) : selectedDataRoom;
 
-    const updatedRooms = floorPlan.rooms.map(room => 
-      room.id === selectedFloorPlanRoom 
-        ? { ...room, assignedDataId: selectedDataRoom, name: roomName }
-        : room
-    );
-
-    onFloorPlanRoomsUpdate(updatedRooms);
+    // Linking also takes the data room off any other polygon
+    onLinkPolygon(selectedFloorPlanRoom, selectedDataRoom, roomName);
     toast.success(`Assigned "${roomName}" to floor plan room`);
     setSelectedDataRoom(null);
     setSelectedFloorPlanRoom(null);
   };
 
+  // Name unlinked polygons after the PDF labels inside them, linking those whose label is a room ID
+  const handleLinkFromLabels = () => {
+    if (!floorPlan?.labels || !onLinkPolygons) return;
+    const links = linksFromLabels(floorPlan.rooms, floorPlan.labels, { rooms, headers }, assignedDataIds);
+    if (links.length === 0) {
+      toast.info("No unlinked floor plan rooms contain a plan label");
+      return;
+    }
+    onLinkPolygons(links);
+    const linked = links.filter(link => link.dataRoomId).length;
+    toast.success(`Linked ${linked} room${linked !== 1 ? 's' : ''} and named ${links.length - linked} more from plan labels`);
+  };
+
   const handleUnassignRoom = (floorPlanRoomId: string) => {
     if (!floorPlan) return;
 
-    const updatedRooms = floorPlan.rooms.map(room => 
-      room.id === floorPlanRoomId 
-        ? { ...room, assignedDataId: undefined }
-        : room
-    );
-
-    onFloorPlanRoomsUpdate(updatedRooms);
+    onLinkPolygon(floorPlanRoomId, null);
     toast.success("Room assignment removed");
   };
 
@@ -116,9 +134,7 @@ export const RoomDataAssignmentInterface = ({
     return rooms.find(r => r.id === floorPlanRoom.assignedDataId);
   };
 
-  const getRoomDisplayName = (room: Room) => {
-    return room.data[1] || room.data[0] || room.id;
-  };
+  const getRoomDisplayName = (room: Room) => roomDisplayName(room, headers);
 
   const getRoomPreview = (room: Room) => {
     const preview = room.data.slice(0, 4).filter(Boolean);
@@ -152,6 +168,13 @@ export const RoomDataAssignmentInterface = ({
           </p>
         </div>
         <div className="flex items-center gap-4">
+          {floors.length > 1 && (
+            <LevelSwitcher
+              floors={floors}
+              activeFloorId={floorPlan.id}
+              onFloorChange={(floorId) => onFloorChange?.(floorId)}
+            />
+          )}
           <Badge variant="outline">
             {rooms.length} Data Rooms
           </Badge>
@@ -161,6 +184,12 @@ export const RoomDataAssignmentInterface = ({
           <Badge variant="secondary">
             {assignedDataIds.size} Assigned
           </Badge>
+          {onLinkPolygons && !!floorPlan.labels?.length && (
+            <Button variant="outline" size="sm" onClick={handleLinkFromLabels}>
+              <Tags className="h-4 w-4 mr-1" />
+              Link from Plan Labels
+            </Button>
+          )}
         </div>
       </div>
 
@@ -275,6 +304,7 @@ export const RoomDataAssignmentInterface = ({
               <div className="space-y-2">
                 {filteredFloorPlanRooms.map((room) => {
                   const assignedData = getAssignedDataRoom(room);
+                  const panoramaCount = panoramas.filter(p => panoramaInPolygon(p, room)).length;
                   return (
                     <div
                       key={room.id}
@@ -297,9 +327,9 @@ export const RoomDataAssignmentInterface = ({
                                 Assigned
                               </Badge>
                             )}
-                            {room.panoramaCount && room.panoramaCount > 0 && (
+                            {panoramaCount > 0 && (
                               <Badge variant="secondary">
-                                {room.panoramaCount} panos
+                                {panoramaCount} panos
                               </Badge>
                             )}
                           </div>
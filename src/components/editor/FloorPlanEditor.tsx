@@ -1,6 +1,7 @@
 import { useRef, useState, useCallback, useEffect } from "react";
 import { Stage, Layer, Line, Circle, Rect, Text, Group } from "react-konva";
-import { Upload, Download, Trash2, Move, Edit3, Save, X, Plus, Image as ImageIcon } from "lucide-react";
+import type Konva from "konva";
+import { Upload, Download, Trash2, Move, Edit3, Save, X, Plus, Image as ImageIcon, ArrowUp, ArrowDown, Ruler, AlertTriangle, MapPin, Link2, Wand2, Loader2 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,6 +10,32 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import { toast } from "sonner";
+import { LevelSwitcher } from "@/components/floorplan/LevelSwitcher";
+import { distance, measurePolygon } from "@/lib/geometry";
+import {
+  constrainAngle,
+  insertVertex,
+  removeVertex,
+  sharedVertices,
+  snapPoint,
+  snapTranslation,
+  translatePolygon,
+  type SnapResult,
+  type VertexRef,
+} from "@/lib/polygon-edit";
+import { buildPlanSvg, buildRoomsGeoJson, parseRoomsGeoJson, type GeoJsonUnits } from "@/lib/plan-export";
+import { suggestFromLabels } from "@/lib/plan-labels";
+import { checkArea, formatArea, getReportedArea } from "@/lib/room-area";
+import { panoramaInPolygon, roomDisplayName } from "@/lib/room-links";
+import { suggestHotspots, type HotspotSuggestion } from "@/lib/tour-links";
+import { GenerateLinksDialog } from "@/components/panorama/GenerateLinksDialog";
+import type { DispatchOptions } from "@/hooks/use-project-store";
+import { useRoomDetection } from "@/hooks/use-room-detection";
+import { DEFAULT_DETECTION_OPTIONS, type DetectionOptions } from "@/lib/room-detection";
+import type { Room as DataRoom, RoomHeaders, FloorPlanCalibration, PanoramaItem, PlanLabel } from "@/types/project";
 
 interface Point {
   x: number;
@@ -20,50 +47,114 @@ interface Room {
   name: string;
   polygon: Point[];
   level?: string;
+  rag?: 'Minimal' | 'Minor' | 'Significant';
   panoramaCount?: number;
+  assignedDataId?: string;
 }
 
 interface FloorPlan {
   id: string;
+  level: string;
   imageUrl: string;
   width: number;
   height: number;
   rooms: Room[];
+  pixelsPerMetre?: number;
+  calibration?: FloorPlanCalibration;
+  labels?: PlanLabel[];
+}
+
+interface NewRoomData {
+  name: string;
+  level: string;
+  dataRoomId?: string; // spreadsheet room named by a PDF label inside the outline
 }
 
 interface FloorPlanEditorProps {
   floorPlan: FloorPlan | null;
+  floors?: FloorPlan[];
+  onFloorChange?: (floorId: string) => void;
+  onFloorRename?: (floorId: string, level: string) => void;
+  onFloorMove?: (floorId: string, direction: -1 | 1) => void;
+  onFloorDelete?: (floorId: string) => void;
+  onFloorCalibrate?: (calibration: FloorPlanCalibration) => void;
+  dataRooms?: DataRoom[];
+  headers?: RoomHeaders;
+  areaTolerancePercent?: number;
+  onAreaToleranceChange?: (percent: number) => void;
   onFloorPlanUpload: (file: File) => void;
-  onRoomUpdate: (rooms: Room[]) => void;
+  onRoomUpdate: (rooms: Room[], options?: DispatchOptions) => void;
+  onRoomDelete: (roomId: string) => void;
   selectedRoomId?: string;
   onRoomSelect?: (roomId: string | null) => void;
   onPanoramaUpload?: (roomId: string, files: FileList) => void;
+  panoramas?: PanoramaItem[];
+  onPanoramaPlace?: (nodeId: string, position: Point | null) => void;
+  onHotspotsGenerate?: (suggestions: HotspotSuggestion[]) => void;
 }
 
-type DrawMode = 'select' | 'draw' | 'edit';
+type DrawMode = 'select' | 'draw' | 'detect' | 'edit' | 'calibrate' | 'place';
+
+// How close, in screen pixels, the pointer must come to a vertex or edge to snap to it
+const SNAP_DISTANCE = 10;
+
+// Shortest dimension, in image pixels, that can calibrate the scale
+const MIN_CALIBRATION_PIXELS = 1;
 
 export const FloorPlanEditor = ({ 
   floorPlan, 
+  floors = [],
+  onFloorChange,
+  onFloorRename,
+  onFloorMove,
+  onFloorDelete,
+  onFloorCalibrate,
+  dataRooms = [],
+  headers,
+  areaTolerancePercent = 10,
+  onAreaToleranceChange,
   onFloorPlanUpload, 
   onRoomUpdate,
+  onRoomDelete,
   selectedRoomId,
   onRoomSelect,
-  onPanoramaUpload
+  onPanoramaUpload,
+  panoramas = [],
+  onPanoramaPlace,
+  onHotspotsGenerate
 }: FloorPlanEditorProps) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const panoInputRef = useRef<HTMLInputElement>(null);
+  const geoJsonInputRef = useRef<HTMLInputElement>(null);
   const stageRef = useRef<any>(null);
+  // Every move of one vertex drag shares a key so the drag undoes as one step
+  const dragKeyRef = useRef<string | null>(null);
+  // Corners of neighbouring rooms moving with the dragged vertex
+  const linkedVerticesRef = useRef<VertexRef[]>([]);
+  // Whole-room move in progress: the outline at the start and the offset so far
+  const translateRef = useRef<{ origin: Point[]; dx: number; dy: number } | null>(null);
   
   const [mode, setMode] = useState<DrawMode>('select');
   const [currentPolygon, setCurrentPolygon] = useState<Point[]>([]);
   const [isDrawing, setIsDrawing] = useState(false);
   const [showRoomForm, setShowRoomForm] = useState(false);
-  const [newRoomData, setNewRoomData] = useState({ name: '', level: '' });
+  const [newRoomData, setNewRoomData] = useState<NewRoomData>({ name: '', level: '' });
   const [scale, setScale] = useState(1);
   const [stagePos, setStagePos] = useState({ x: 0, y: 0 });
+  const [calibrationPoints, setCalibrationPoints] = useState<Point[]>([]);
+  const [calibrationMetres, setCalibrationMetres] = useState('');
+  const [placingNodeId, setPlacingNodeId] = useState<string | null>(null);
+  const [linkSuggestions, setLinkSuggestions] = useState<HotspotSuggestion[] | null>(null);
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const [drawCursor, setDrawCursor] = useState<SnapResult | null>(null);
+  const [selectedVertex, setSelectedVertex] = useState<number | null>(null);
+  const [geoJsonUnits, setGeoJsonUnits] = useState<GeoJsonUnits>('metres');
+  const [detectionOptions, setDetectionOptions] = useState<DetectionOptions>(DEFAULT_DETECTION_OPTIONS);
+  const { detect, detecting } = useRoomDetection(floorPlan?.imageUrl);
 
   const rooms = floorPlan?.rooms || [];
   const selectedRoom = rooms.find(r => r.id === selectedRoomId);
+  const floorIndex = floorPlan ? floors.findIndex(f => f.id === floorPlan.id) : -1;
 
   // Handle file upload
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -71,6 +162,91 @@ export const FloorPlanEditor = ({
     if (file) {
       onFloorPlanUpload(file);
     }
+    event.target.value = '';
+  };
+
+  const panoramaCountFor = (room: Room) => panoramas.filter(p => panoramaInPolygon(p, room)).length;
+
+  // Real-world measurements, available once the level has a scale
+  const measureRoom = (room: Room) =>
+    floorPlan?.pixelsPerMetre ? measurePolygon(room.polygon, floorPlan.pixelsPerMetre) : null;
+
+  // Compare the drawn area with the area reported by the linked spreadsheet room
+  const areaCheckFor = (room: Room) => {
+    const measurements = measureRoom(room);
+    const dataRoom = room.assignedDataId ? dataRooms.find(r => r.id === room.assignedDataId) : undefined;
+    if (!measurements || !dataRoom || !headers) return null;
+    const reported = getReportedArea(dataRoom, headers);
+    return reported === null ? null : checkArea(measurements.area, reported, areaTolerancePercent);
+  };
+
+  // Metres need a calibrated scale
+  const exchangeUnits: GeoJsonUnits = floorPlan?.pixelsPerMetre ? geoJsonUnits : 'pixels';
+  const schedule = { rooms: dataRooms, headers: headers ?? { row1: [], row2: [] } };
+
+  const downloadFile = (blob: Blob, extension: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(floorPlan?.level || 'floor-plan').replace(/[^\w-]+/g, '-')}.${extension}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const exportGeoJson = () => {
+    if (!floorPlan) return;
+    try {
+      const collection = buildRoomsGeoJson(floorPlan, schedule, panoramas, exchangeUnits);
+      downloadFile(new Blob([JSON.stringify(collection, null, 2)], { type: 'application/geo+json' }), 'geojson');
+      toast.success(`Exported ${rooms.length} room${rooms.length !== 1 ? 's' : ''} to GeoJSON`);
+    } catch (e) {
+      console.error('Failed to export GeoJSON', e);
+      toast.error(e instanceof Error ? e.message : 'Failed to export GeoJSON');
+    }
+  };
+
+  const exportSvg = async () => {
+    if (!floorPlan) return;
+    try {
+      const svg = await buildPlanSvg(floorPlan, schedule, panoramas);
+      downloadFile(new Blob([svg], { type: 'image/svg+xml' }), 'svg');
+    } catch (e) {
+      console.error('Failed to export SVG', e);
+      toast.error('Failed to export SVG');
+    }
+  };
+
+  // Polygons drawn in other tools join this level's rooms in one undo step
+  const handleGeoJsonImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !floorPlan) return;
+    try {
+      const { rooms: imported, skipped } = parseRoomsGeoJson(await file.text(), floorPlan, exchangeUnits);
+      if (imported.length === 0) {
+        toast.error('No room polygons found in the GeoJSON file');
+        return;
+      }
+      const stamp = Date.now();
+      onRoomUpdate([
+        ...rooms,
+        ...imported.map((room, index) => ({ ...room, id: `room-${stamp}-${index}`, level: room.level || floorPlan.level })),
+      ]);
+      toast.success(
+        `Imported ${imported.length} room${imported.length !== 1 ? 's' : ''}` +
+          (skipped > 0 ? `, skipped ${skipped} feature${skipped !== 1 ? 's' : ''} without a polygon` : '')
+      );
+    } catch (e) {
+      console.error('Failed to import GeoJSON', e);
+      toast.error(e instanceof Error ? e.message : 'Failed to import GeoJSON');
+    }
+  };
+
+  // Delete the active level
+  const deleteFloor = () => {
+    if (!floorPlan) return;
+    const ok = window.confirm(`Delete level "${floorPlan.level}" and its ${rooms.length} room${rooms.length !== 1 ? 's' : ''}?`);
+    if (ok) onFloorDelete?.(floorPlan.id);
   };
 
   // Handle panorama upload for room
@@ -88,19 +264,74 @@ export const FloorPlanEditor = ({
     setIsDrawing(true);
   };
 
+  // Start picking the two ends of a known dimension
+  const startCalibration = () => {
+    setMode('calibrate');
+    setCalibrationPoints([]);
+    setCalibrationMetres('');
+  };
+
+  const cancelCalibration = () => {
+    setCalibrationPoints([]);
+    setCalibrationMetres('');
+    setMode('select');
+  };
+
+  const saveCalibration = () => {
+    const metres = parseFloat(calibrationMetres);
+    if (calibrationPoints.length !== 2 || !(metres > 0)) return;
+    // Points on top of each other would give a scale of zero or infinity
+    if (distance(calibrationPoints[0], calibrationPoints[1]) < MIN_CALIBRATION_PIXELS) {
+      toast.error("The calibration points are too close together. Click the ends of a longer dimension.");
+      setCalibrationPoints([]);
+      return;
+    }
+    onFloorCalibrate?.({ start: calibrationPoints[0], end: calibrationPoints[1], metres });
+    cancelCalibration();
+  };
+
+  // Pick a panorama, then click its capture point on the plan
+  const startPlacing = (nodeId: string) => {
+    setMode('place');
+    setPlacingNodeId(nodeId);
+  };
+
+  const cancelPlacing = () => {
+    setPlacingNodeId(null);
+    setMode('select');
+  };
+
   // Handle stage click for drawing
   const handleStageClick = (e: any) => {
-    if (mode !== 'draw' || !isDrawing || !stageRef.current) return;
+    if (!stageRef.current) return;
+    if (mode === 'place') {
+      const pos = stageRef.current.getRelativePointerPosition();
+      if (pos && placingNodeId) {
+        onPanoramaPlace?.(placingNodeId, { x: pos.x / scale, y: pos.y / scale });
+      }
+      cancelPlacing();
+      return;
+    }
+    if (mode === 'calibrate') {
+      const pos = stageRef.current.getRelativePointerPosition();
+      if (pos && calibrationPoints.length < 2) {
+        setCalibrationPoints(prev => [...prev, { x: pos.x / scale, y: pos.y / scale }]);
+      }
+      return;
+    }
+    if (mode === 'detect') {
+      const pos = stageRef.current.getRelativePointerPosition();
+      if (pos && !detecting && !showRoomForm) detectRoomAt({ x: pos.x / scale, y: pos.y / scale });
+      return;
+    }
+    if (mode !== 'draw' || !isDrawing) return;
 
     const stage = stageRef.current;
     const pos = stage.getRelativePointerPosition();
     
     if (!pos) return;
 
-    const newPoint = { 
-      x: pos.x / scale, 
-      y: pos.y / scale 
-    };
+    const newPoint = drawingPoint({ x: pos.x / scale, y: pos.y / scale }, e.evt?.shiftKey).point;
 
     // Check if we're closing the polygon (click near first point)
     if (currentPolygon.length > 2) {
@@ -119,12 +350,57 @@ export const FloorPlanEditor = ({
     setCurrentPolygon(prev => [...prev, newPoint]);
   };
 
+  const snapTolerance = SNAP_DISTANCE / scale;
+  const outlinesExcept = (ids: string[]) => rooms.filter(r => !ids.includes(r.id)).map(r => r.polygon);
+
+  // Shift keeps the new edge at a multiple of 45°; otherwise the point snaps to nearby rooms
+  const drawingPoint = (point: Point, shift: boolean): SnapResult => {
+    const last = currentPolygon[currentPolygon.length - 1];
+    if (shift && last) return { point: constrainAngle(last, point), kind: null };
+    return snapEnabled ? snapPoint(point, [...outlinesExcept([]), currentPolygon], snapTolerance) : { point, kind: null };
+  };
+
+  const handleStageMouseMove = (e: Konva.KonvaEventObject<MouseEvent>) => {
+    if (mode !== 'draw' || !isDrawing || !stageRef.current) return;
+    const pos = stageRef.current.getRelativePointerPosition();
+    if (pos) setDrawCursor(drawingPoint({ x: pos.x / scale, y: pos.y / scale }, e.evt?.shiftKey));
+  };
+
+  // Trace the room around a click on the plan and offer it in the new-room form
+  const startDetecting = () => {
+    setMode('detect');
+    setCurrentPolygon([]);
+  };
+
+  const detectRoomAt = async (point: Point) => {
+    try {
+      const polygon = await detect(point, detectionOptions);
+      setCurrentPolygon(polygon);
+      openRoomForm(polygon);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Room detection failed');
+    }
+  };
+
+  // Suggest a name from the PDF labels inside the outline, and a link when one is a spreadsheet room ID
+  const openRoomForm = (polygon: Point[]) => {
+    const suggestion = floorPlan?.labels?.length
+      ? suggestFromLabels(polygon, floorPlan.labels, headers ? { rooms: dataRooms, headers } : undefined)
+      : null;
+    const dataRoomId = suggestion?.dataRoomId;
+    // A spreadsheet room links to one polygon; one already linked only lends its name
+    const taken = !!dataRoomId && [...floors, floorPlan].some(floor => floor?.rooms.some(r => r.assignedDataId === dataRoomId));
+    setNewRoomData({ name: suggestion?.name ?? '', level: '', dataRoomId: taken ? undefined : dataRoomId });
+    setShowRoomForm(true);
+  };
+
   // Finish drawing and show room form
   const finishDrawing = () => {
     if (currentPolygon.length >= 3) {
-      setShowRoomForm(true);
+      openRoomForm(currentPolygon);
     }
     setIsDrawing(false);
+    setDrawCursor(null);
   };
 
   // Save new room
@@ -135,8 +411,8 @@ export const FloorPlanEditor = ({
       id: `room-${Date.now()}`,
       name: newRoomData.name.trim(),
       polygon: [...currentPolygon],
-      level: newRoomData.level.trim() || undefined,
-      panoramaCount: 0
+      level: newRoomData.level.trim() || floorPlan?.level,
+      assignedDataId: newRoomData.dataRoomId
     };
 
     onRoomUpdate([...rooms, newRoom]);
@@ -145,15 +421,16 @@ export const FloorPlanEditor = ({
     setCurrentPolygon([]);
     setShowRoomForm(false);
     setNewRoomData({ name: '', level: '' });
-    setMode('select');
+    if (mode !== 'detect') setMode('select');
   };
 
-  // Cancel drawing
+  // Cancel drawing; a rejected detection leaves the tool active for the next click
   const cancelDrawing = () => {
     setCurrentPolygon([]);
+    setDrawCursor(null);
     setShowRoomForm(false);
     setIsDrawing(false);
-    setMode('select');
+    if (mode !== 'detect' || !showRoomForm) setMode('select');
     setNewRoomData({ name: '', level: '' });
   };
 
@@ -166,28 +443,79 @@ export const FloorPlanEditor = ({
 
   // Delete room
   const deleteRoom = (roomId: string) => {
-    onRoomUpdate(rooms.filter(room => room.id !== roomId));
+    const room = rooms.find(r => r.id === roomId);
+    if (room && !window.confirm(`Delete room "${room.name}"?`)) return;
+    onRoomDelete(roomId);
     if (selectedRoomId === roomId) {
       onRoomSelect?.(null);
     }
   };
 
-  // Handle vertex drag
-  const handleVertexDrag = (roomId: string, vertexIndex: number, newPos: Point) => {
+  const updatePolygon = (roomId: string, polygon: Point[], options?: DispatchOptions) => {
+    onRoomUpdate(rooms.map(room => (room.id === roomId ? { ...room, polygon } : room)), options);
+  };
+
+  // Handle vertex drag; corners shared with neighbouring rooms move too, keeping the walls joined
+  const handleVertexDrag = (roomId: string, vertexIndex: number, newPos: Point): Point => {
+    const linked = linkedVerticesRef.current;
+    const raw = { x: newPos.x / scale, y: newPos.y / scale };
+    const point = snapEnabled
+      ? snapPoint(raw, outlinesExcept([roomId, ...linked.map(v => v.outlineId)]), snapTolerance).point
+      : raw;
     const updatedRooms = rooms.map(room => {
-      if (room.id === roomId) {
-        const newPolygon = [...room.polygon];
-        newPolygon[vertexIndex] = {
-          x: newPos.x / scale,
-          y: newPos.y / scale
-        };
-        return { ...room, polygon: newPolygon };
-      }
-      return room;
+      const indices = room.id === roomId ? [vertexIndex] : linked.filter(v => v.outlineId === room.id).map(v => v.index);
+      if (indices.length === 0) return room;
+      return { ...room, polygon: room.polygon.map((p, i) => (indices.includes(i) ? point : p)) };
     });
-    onRoomUpdate(updatedRooms);
+    onRoomUpdate(updatedRooms, { coalesce: dragKeyRef.current ?? undefined });
+    return point;
+  };
+
+  const handleInsertVertex = (room: Room, edgeIndex: number) => {
+    updatePolygon(room.id, insertVertex(room.polygon, edgeIndex));
+    setSelectedVertex(edgeIndex + 1);
   };
 
+  const handleRemoveVertex = (room: Room, index: number) => {
+    if (room.polygon.length <= 3) return;
+    updatePolygon(room.id, removeVertex(room.polygon, index));
+    setSelectedVertex(null);
+  };
+
+  // Move the whole room; the node is reset after each move so the offset is tracked here
+  const handleTranslate = (room: Room, node: Konva.Node) => {
+    const move = translateRef.current;
+    if (!move) return;
+    move.dx += node.x() / scale;
+    move.dy += node.y() / scale;
+    node.position({ x: 0, y: 0 });
+    let polygon = translatePolygon(move.origin, move.dx, move.dy);
+    if (snapEnabled) {
+      const offset = snapTranslation(polygon, outlinesExcept([room.id]), snapTolerance);
+      polygon = translatePolygon(polygon, offset.x, offset.y);
+    }
+    updatePolygon(room.id, polygon, { coalesce: dragKeyRef.current ?? undefined });
+  };
+
+  // Delete or Backspace removes the selected vertex
+  useEffect(() => {
+    if (mode !== 'edit' || selectedVertex === null || !selectedRoom) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        handleRemoveVertex(selectedRoom, selectedVertex);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  useEffect(() => {
+    setSelectedVertex(null);
+  }, [mode, selectedRoomId]);
+
   // Render polygon
   const renderPolygon = (points: Point[], color: string, isSelected: boolean = false) => {
     const flatPoints = points.flatMap(p => [p.x * scale, p.y * scale]);
@@ -212,26 +540,89 @@ export const FloorPlanEditor = ({
     );
   };
 
-  // Render room vertices for editing
+  // Handles for editing the selected room: drag the outline to move it, drag a corner to
+  // reshape it, click an edge midpoint to add a corner, right-click a corner to remove it
   const renderVertices = (room: Room) => {
     if (mode !== 'edit' || selectedRoomId !== room.id) return null;
 
-    return room.polygon.map((point, index) => (
-      <Circle
-        key={index}
-        x={point.x * scale}
-        y={point.y * scale}
-        radius={6}
-        fill="#3b82f6"
-        stroke="#ffffff"
-        strokeWidth={2}
-        draggable
-        onDragMove={(e) => {
-          const pos = { x: e.target.x(), y: e.target.y() };
-          handleVertexDrag(room.id, index, pos);
-        }}
-      />
-    ));
+    return (
+      <>
+        <Line
+          points={room.polygon.flatMap(p => [p.x * scale, p.y * scale])}
+          closed
+          fill="rgba(59, 130, 246, 0.1)"
+          draggable
+          onMouseEnter={(e) => { e.target.getStage().container().style.cursor = 'move'; }}
+          onMouseLeave={(e) => { e.target.getStage().container().style.cursor = ''; }}
+          onDragStart={() => {
+            dragKeyRef.current = `move-${room.id}-${Date.now()}`;
+            translateRef.current = { origin: room.polygon, dx: 0, dy: 0 };
+          }}
+          onDragMove={(e) => handleTranslate(room, e.target)}
+          onDragEnd={(e) => {
+            handleTranslate(room, e.target);
+            dragKeyRef.current = null;
+            translateRef.current = null;
+          }}
+        />
+        {room.polygon.map((point, index) => {
+          const next = room.polygon[(index + 1) % room.polygon.length];
+          return (
+            <Circle
+              key={`mid-${index}`}
+              x={((point.x + next.x) / 2) * scale}
+              y={((point.y + next.y) / 2) * scale}
+              radius={4}
+              fill="#ffffff"
+              stroke="#3b82f6"
+              strokeWidth={1.5}
+              opacity={0.8}
+              onClick={(e) => {
+                e.cancelBubble = true;
+                handleInsertVertex(room, index);
+              }}
+            />
+          );
+        })}
+        {room.polygon.map((point, index) => (
+          <Circle
+            key={index}
+            x={point.x * scale}
+            y={point.y * scale}
+            radius={selectedVertex === index ? 8 : 6}
+            fill={selectedVertex === index ? '#1d4ed8' : '#3b82f6'}
+            stroke="#ffffff"
+            strokeWidth={2}
+            draggable
+            onClick={(e) => {
+              e.cancelBubble = true;
+              setSelectedVertex(index);
+            }}
+            onContextMenu={(e) => {
+              e.evt.preventDefault();
+              handleRemoveVertex(room, index);
+            }}
+            onDragStart={(e) => {
+              dragKeyRef.current = `vertex-${room.id}-${index}-${Date.now()}`;
+              // Alt detaches the corner from neighbouring rooms
+              linkedVerticesRef.current = e.evt.altKey
+                ? []
+                : sharedVertices(point, rooms.filter(r => r.id !== room.id).map(r => ({ id: r.id, polygon: r.polygon })));
+              setSelectedVertex(index);
+            }}
+            onDragMove={(e) => {
+              const pos = { x: e.target.x(), y: e.target.y() };
+              const snapped = handleVertexDrag(room.id, index, pos);
+              e.target.position({ x: snapped.x * scale, y: snapped.y * scale });
+            }}
+            onDragEnd={() => {
+              dragKeyRef.current = null;
+              linkedVerticesRef.current = [];
+            }}
+          />
+        ))}
+      </>
+    );
   };
 
   const getRoomColor = (rag?: string) => {
@@ -258,7 +649,7 @@ export const FloorPlanEditor = ({
                 </div>
                 <div className="space-y-2">
                   <p className="font-medium">Upload Floor Plan</p>
-                  <p className="text-sm text-muted-foreground">PDF or image file (PNG, JPG)</p>
+                  <p className="text-sm text-muted-foreground">PDF, DXF or image file (PNG, JPG)</p>
                 </div>
                 <Button onClick={() => fileInputRef.current?.click()} className="w-full">
                   <Upload className="h-4 w-4 mr-2" />
@@ -283,7 +674,7 @@ export const FloorPlanEditor = ({
         <input
           ref={fileInputRef}
           type="file"
-          accept=".pdf,.png,.jpg,.jpeg"
+          accept=".pdf,.dxf,.png,.jpg,.jpeg"
           className="hidden"
           onChange={handleFileUpload}
         />
@@ -303,12 +694,134 @@ export const FloorPlanEditor = ({
                 {rooms.length} room{rooms.length !== 1 ? 's' : ''}
               </Badge>
               <Badge variant={mode === 'select' ? 'default' : 'secondary'}>
-                {mode === 'draw' ? 'Drawing' : mode === 'edit' ? 'Editing' : 'Select'}
+                {mode === 'draw' ? 'Drawing' : mode === 'detect' ? 'Detecting' : mode === 'edit' ? 'Editing' : mode === 'calibrate' ? 'Calibrating' : mode === 'place' ? 'Placing' : 'Select'}
               </Badge>
             </div>
           </CardHeader>
 
           <CardContent className="space-y-4 flex-1 overflow-y-auto">
+            {/* Levels */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium">Level</Label>
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <Upload className="h-3 w-3 mr-1" />
+                  Add Level
+                </Button>
+              </div>
+              <LevelSwitcher
+                floors={floors}
+                activeFloorId={floorPlan.id}
+                onFloorChange={(floorId) => onFloorChange?.(floorId)}
+                className="w-full"
+              />
+              <div className="flex items-center space-x-1">
+                <Input
+                  value={floorPlan.level}
+                  onChange={(e) => onFloorRename?.(floorPlan.id, e.target.value)}
+                  placeholder="Level name"
+                  className="h-8"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Move level down"
+                  onClick={() => onFloorMove?.(floorPlan.id, -1)}
+                  disabled={floorIndex <= 0}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Move level up"
+                  onClick={() => onFloorMove?.(floorPlan.id, 1)}
+                  disabled={floorIndex < 0 || floorIndex >= floors.length - 1}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Delete level"
+                  onClick={deleteFloor}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {/* Scale */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium">Scale</Label>
+                <Badge variant={floorPlan.pixelsPerMetre ? 'outline' : 'secondary'}>
+                  {floorPlan.pixelsPerMetre ? `${floorPlan.pixelsPerMetre.toFixed(1)} px/m` : 'Not calibrated'}
+                </Badge>
+              </div>
+              {mode === 'calibrate' ? (
+                <div className="space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    {calibrationPoints.length < 2
+                      ? `Click ${calibrationPoints.length === 0 ? 'the start' : 'the end'} of a known dimension on the plan`
+                      : `Measured ${distance(calibrationPoints[0], calibrationPoints[1]).toFixed(0)} px`}
+                  </p>
+                  {calibrationPoints.length === 2 && (
+                    <div className="flex items-center space-x-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={calibrationMetres}
+                        onChange={(e) => setCalibrationMetres(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && saveCalibration()}
+                        placeholder="Length in metres"
+                        className="h-8"
+                        autoFocus
+                      />
+                      <Button size="sm" onClick={saveCalibration} disabled={!(parseFloat(calibrationMetres) > 0)}>
+                        <Save className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                  <Button variant="outline" size="sm" onClick={cancelCalibration} className="w-full">
+                    <X className="h-4 w-4 mr-1" />
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={startCalibration}
+                  disabled={mode !== 'select'}
+                  className="w-full"
+                >
+                  <Ruler className="h-4 w-4 mr-1" />
+                  {floorPlan.pixelsPerMetre ? 'Recalibrate Scale' : 'Calibrate Scale'}
+                </Button>
+              )}
+              <div className="flex items-center justify-between">
+                <Label htmlFor="area-tolerance" className="text-xs text-muted-foreground">Area tolerance (%)</Label>
+                <Input
+                  id="area-tolerance"
+                  type="number"
+                  min="0"
+                  value={areaTolerancePercent}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (value >= 0) onAreaToleranceChange?.(value);
+                  }}
+                  className="h-8 w-20"
+                />
+              </div>
+            </div>
+
             {/* Drawing Controls */}
             <div className="space-y-2">
               <Label className="text-sm font-medium">Drawing Tools</Label>
@@ -323,8 +836,57 @@ export const FloorPlanEditor = ({
                       <Save className="h-4 w-4 mr-1" />
                       Finish ({currentPolygon.length} points)
                     </Button>
+                    <p className="text-xs text-muted-foreground">Hold Shift for square and 45° walls.</p>
                   </>
                 )}
+                {mode === 'detect' && (
+                  <>
+                    <p className="text-xs text-muted-foreground flex items-center">
+                      {detecting && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                      {detecting ? 'Tracing room...' : 'Click inside a room on the plan to trace its walls.'}
+                    </p>
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <Label className="text-xs text-muted-foreground">Wall threshold</Label>
+                        <span>{detectionOptions.threshold}</span>
+                      </div>
+                      <Slider
+                        min={10}
+                        max={250}
+                        step={5}
+                        value={[detectionOptions.threshold]}
+                        onValueChange={([threshold]) => setDetectionOptions(prev => ({ ...prev, threshold }))}
+                      />
+                      <p className="text-xs text-muted-foreground">Higher counts fainter lines as walls.</p>
+                    </div>
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <Label className="text-xs text-muted-foreground">Simplification</Label>
+                        <span>{detectionOptions.tolerance} px</span>
+                      </div>
+                      <Slider
+                        min={0}
+                        max={20}
+                        step={0.5}
+                        value={[detectionOptions.tolerance]}
+                        onValueChange={([tolerance]) => setDetectionOptions(prev => ({ ...prev, tolerance }))}
+                      />
+                    </div>
+                    <Button variant="outline" size="sm" onClick={cancelDrawing}>
+                      <X className="h-4 w-4 mr-1" />
+                      Done
+                    </Button>
+                  </>
+                )}
+                {mode === 'edit' && (
+                  <p className="text-xs text-muted-foreground">
+                    Drag a corner or the whole room. Click an edge midpoint to add a corner; right-click a corner, or select it and press Delete, to remove it. Shared corners move together; hold Alt to drag one apart.
+                  </p>
+                )}
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="snap-toggle" className="text-xs text-muted-foreground">Snap to neighbouring rooms</Label>
+                  <Switch id="snap-toggle" checked={snapEnabled} onCheckedChange={setSnapEnabled} />
+                </div>
                 {(mode === 'select' || mode === 'edit') && (
                   <>
                     <Button 
@@ -337,10 +899,16 @@ export const FloorPlanEditor = ({
                       {mode === 'edit' ? 'Select Mode' : 'Edit Mode'}
                     </Button>
                     {mode === 'select' && (
-                      <Button variant="default" size="sm" onClick={startDrawing} className="w-full">
-                        <Plus className="h-4 w-4 mr-1" />
-                        Draw Room
-                      </Button>
+                      <>
+                        <Button variant="default" size="sm" onClick={startDrawing} className="w-full">
+                          <Plus className="h-4 w-4 mr-1" />
+                          Draw Room
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={startDetecting} className="w-full">
+                          <Wand2 className="h-4 w-4 mr-1" />
+                          Detect Room
+                        </Button>
+                      </>
                     )}
                   </>
                 )}
@@ -349,20 +917,13 @@ export const FloorPlanEditor = ({
 
             {/* Room List */}
             <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm font-medium">Rooms</Label>
-                <Button 
-                  variant="ghost" 
-                  size="sm" 
-                  onClick={() => fileInputRef.current?.click()}
-                >
-                  <Upload className="h-3 w-3 mr-1" />
-                  New Plan
-                </Button>
-              </div>
+              <Label className="text-sm font-medium">Rooms</Label>
               
               <div className="space-y-2 max-h-60 overflow-y-auto">
-                {rooms.map(room => (
+                {rooms.map(room => {
+                  const measurements = measureRoom(room);
+                  const areaCheck = areaCheckFor(room);
+                  return (
                   <div 
                     key={room.id}
                     className={`p-3 border rounded-lg cursor-pointer transition-colors ${
@@ -375,21 +936,134 @@ export const FloorPlanEditor = ({
                     <div className="flex items-center justify-between">
                       <span className="font-medium text-sm">{room.name}</span>
                       <div className="flex items-center space-x-1">
-                        {room.panoramaCount !== undefined && (
-                          <Badge variant="outline" className="text-xs">
-                            {room.panoramaCount} panos
-                          </Badge>
+                        {areaCheck?.mismatch && (
+                          <span title={`Spreadsheet area ${formatArea(areaCheck.reported)}`}>
+                            <AlertTriangle className="h-4 w-4 text-amber-500" />
+                          </span>
                         )}
+                        {measurements && (
+                          <>
+                            <Badge variant="secondary" className="text-xs">
+                              {formatArea(measurements.area)}
+                            </Badge>
+                            <Badge variant="secondary" className="text-xs" title="Perimeter">
+                              {measurements.perimeter.toFixed(1)} m
+                            </Badge>
+                          </>
+                        )}
+                        <Badge variant="outline" className="text-xs">
+                          {panoramaCountFor(room)} panos
+                        </Badge>
                       </div>
                     </div>
                     {room.level && (
                       <p className="text-xs text-muted-foreground mt-1">{room.level}</p>
                     )}
                   </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
 
+            {/* GeoJSON / SVG exchange */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium">GeoJSON & SVG</Label>
+                <Select value={exchangeUnits} onValueChange={(value) => setGeoJsonUnits(value as GeoJsonUnits)}>
+                  <SelectTrigger className="h-8 w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="metres" disabled={!floorPlan.pixelsPerMetre}>Metres</SelectItem>
+                    <SelectItem value="pixels">Pixels</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <Button variant="outline" size="sm" onClick={exportGeoJson} disabled={rooms.length === 0} title="Export rooms and capture points as GeoJSON">
+                  <Download className="h-3 w-3 mr-1" />
+                  GeoJSON
+                </Button>
+                <Button variant="outline" size="sm" onClick={exportSvg} title="Export the plan overlay as SVG">
+                  <Download className="h-3 w-3 mr-1" />
+                  SVG
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => geoJsonInputRef.current?.click()} title="Import room polygons from GeoJSON">
+                  <Upload className="h-3 w-3 mr-1" />
+                  Import
+                </Button>
+              </div>
+            </div>
+
+            {/* Panorama Capture Points */}
+            {panoramas.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="text-sm font-medium">Capture Points</Label>
+                  <Badge variant="outline" className="text-xs">
+                    {panoramas.filter(p => p.position).length} / {panoramas.length} placed
+                  </Badge>
+                </div>
+                {mode === 'place' && (
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>Click the plan where this panorama was shot</span>
+                    <Button variant="ghost" size="sm" className="h-6 px-2" onClick={cancelPlacing}>
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+                {onHotspotsGenerate && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => setLinkSuggestions(suggestHotspots(floorPlan, panoramas))}
+                    disabled={panoramas.filter(p => p.position).length < 2}
+                  >
+                    <Link2 className="h-4 w-4 mr-1" />
+                    Generate Links
+                  </Button>
+                )}
+                <div className="space-y-1 max-h-48 overflow-y-auto">
+                  {panoramas.map(pano => (
+                    <div
+                      key={pano.nodeId}
+                      className={`flex items-center justify-between px-2 py-1 border rounded text-sm ${
+                        placingNodeId === pano.nodeId ? 'bg-primary/10 border-primary' : 'border-border'
+                      }`}
+                    >
+                      <span className="truncate flex items-center">
+                        <MapPin className={`h-3 w-3 mr-1 flex-shrink-0 ${pano.position ? 'text-orange-500' : 'text-muted-foreground'}`} />
+                        {pano.title || pano.nodeId}
+                      </span>
+                      <div className="flex items-center flex-shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => startPlacing(pano.nodeId)}
+                          disabled={mode !== 'select' && mode !== 'place'}
+                        >
+                          {pano.position ? 'Move' : 'Place'}
+                        </Button>
+                        {pano.position && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0"
+                            title="Remove from plan"
+                            onClick={() => onPanoramaPlace?.(pano.nodeId, null)}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Selected Room Details */}
             {selectedRoom && (
               <div className="space-y-3 border-t pt-4">
@@ -401,6 +1075,37 @@ export const FloorPlanEditor = ({
                       <p className="text-sm text-muted-foreground">{selectedRoom.level}</p>
                     )}
                   </div>
+
+                  {(() => {
+                    const measurements = measureRoom(selectedRoom);
+                    const areaCheck = areaCheckFor(selectedRoom);
+                    if (!measurements) {
+                      return <p className="text-xs text-muted-foreground">Calibrate the scale to measure this room.</p>;
+                    }
+                    return (
+                      <div className="text-sm space-y-1">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Area</span>
+                          <span>{formatArea(measurements.area)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Perimeter</span>
+                          <span>{measurements.perimeter.toFixed(2)} m</span>
+                        </div>
+                        {areaCheck && (
+                          <div className={`flex justify-between ${areaCheck.mismatch ? 'text-amber-600' : ''}`}>
+                            <span className="text-muted-foreground flex items-center">
+                              {areaCheck.mismatch && <AlertTriangle className="h-3 w-3 mr-1 text-amber-500" />}
+                              Spreadsheet
+                            </span>
+                            <span>
+                              {formatArea(areaCheck.reported)} ({areaCheck.differencePercent > 0 ? '+' : ''}{areaCheck.differencePercent.toFixed(1)}%)
+                            </span>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })()}
                   
                   <div className="space-y-2">
                     <Label className="text-xs">Panoramas</Label>
@@ -411,7 +1116,7 @@ export const FloorPlanEditor = ({
                       className="w-full"
                     >
                       <ImageIcon className="h-4 w-4 mr-2" />
-                      Upload Panoramas ({selectedRoom.panoramaCount || 0})
+                      Upload Panoramas ({panoramaCountFor(selectedRoom)})
                     </Button>
                   </div>
 
@@ -444,6 +1149,7 @@ export const FloorPlanEditor = ({
             y={stagePos.y}
             draggable={mode === 'select'}
             onClick={handleStageClick}
+            onMouseMove={handleStageMouseMove}
             onDragEnd={(e) => setStagePos({ x: e.target.x(), y: e.target.y() })}
           >
             <Layer>
@@ -481,8 +1187,83 @@ export const FloorPlanEditor = ({
                 </Group>
               ))}
               
+              {/* Scale reference line */}
+              {mode !== 'calibrate' && floorPlan.calibration && (
+                <Line
+                  points={[floorPlan.calibration.start, floorPlan.calibration.end].flatMap(p => [p.x * scale, p.y * scale])}
+                  stroke="#f59e0b"
+                  strokeWidth={2}
+                  dash={[8, 4]}
+                />
+              )}
+
+              {/* Calibration in progress */}
+              {calibrationPoints.length === 2 && (
+                <Line
+                  points={calibrationPoints.flatMap(p => [p.x * scale, p.y * scale])}
+                  stroke="#f59e0b"
+                  strokeWidth={3}
+                />
+              )}
+              {calibrationPoints.map((point, index) => (
+                <Circle
+                  key={`calibration-${index}`}
+                  x={point.x * scale}
+                  y={point.y * scale}
+                  radius={5}
+                  fill="#f59e0b"
+                  stroke="#ffffff"
+                  strokeWidth={2}
+                />
+              ))}
+
+              {/* Panorama capture points */}
+              {panoramas.filter(p => p.position).map(pano => (
+                <Group key={pano.nodeId}>
+                  <Circle
+                    x={pano.position!.x * scale}
+                    y={pano.position!.y * scale}
+                    radius={placingNodeId === pano.nodeId ? 8 : 6}
+                    fill={placingNodeId === pano.nodeId ? '#3b82f6' : '#f97316'}
+                    stroke="#ffffff"
+                    strokeWidth={2}
+                  />
+                  <Text
+                    x={pano.position!.x * scale + 8}
+                    y={pano.position!.y * scale - 6}
+                    text={pano.title || pano.nodeId}
+                    fontSize={10}
+                    fill="#9a3412"
+                    listening={false}
+                  />
+                </Group>
+              ))}
+
               {/* Current drawing polygon */}
               {currentPolygon.length > 0 && renderPolygon(currentPolygon, '#3b82f6')}
+
+              {/* Next edge, and where the next click will land */}
+              {drawCursor && currentPolygon.length > 0 && (
+                <Line
+                  points={[currentPolygon[currentPolygon.length - 1], drawCursor.point].flatMap(p => [p.x * scale, p.y * scale])}
+                  stroke="#3b82f6"
+                  strokeWidth={1.5}
+                  dash={[6, 4]}
+                  listening={false}
+                />
+              )}
+              {drawCursor?.kind && (
+                <Rect
+                  x={drawCursor.point.x * scale - 5}
+                  y={drawCursor.point.y * scale - 5}
+                  width={10}
+                  height={10}
+                  stroke={drawCursor.kind === 'vertex' ? '#f59e0b' : '#10b981'}
+                  strokeWidth={2}
+                  cornerRadius={drawCursor.kind === 'edge' ? 5 : 0}
+                  listening={false}
+                />
+              )}
               
               {/* Current drawing vertices */}
               {currentPolygon.map((point, index) => (
@@ -503,10 +1284,17 @@ export const FloorPlanEditor = ({
       <input
         ref={fileInputRef}
         type="file"
-        accept=".pdf,.png,.jpg,.jpeg"
+        accept=".pdf,.dxf,.png,.jpg,.jpeg"
         className="hidden"
         onChange={handleFileUpload}
       />
+      <input
+        ref={geoJsonInputRef}
+        type="file"
+        accept=".geojson,.json"
+        className="hidden"
+        onChange={handleGeoJsonImport}
+      />
       <input
         ref={panoInputRef}
         type="file"
@@ -516,6 +1304,17 @@ export const FloorPlanEditor = ({
         onChange={handlePanoramaUpload}
       />
 
+      <GenerateLinksDialog
+        suggestions={linkSuggestions}
+        panoramas={panoramas}
+        distanceUnit={floorPlan.pixelsPerMetre ? 'm' : 'px'}
+        onCancel={() => setLinkSuggestions(null)}
+        onConfirm={(accepted) => {
+          onHotspotsGenerate?.(accepted);
+          setLinkSuggestions(null);
+        }}
+      />
+
       {/* Room Form Modal */}
       {showRoomForm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -524,6 +1323,11 @@ export const FloorPlanEditor = ({
               <CardTitle>Create Room</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              {mode === 'detect' && (
+                <p className="text-sm text-muted-foreground">
+                  Detected an outline with {currentPolygon.length} corners. Fine-tune it in Edit Mode after creating the room.
+                </p>
+              )}
               <div>
                 <Label htmlFor="room-name">Room Name *</Label>
                 <Input
@@ -543,6 +1347,28 @@ export const FloorPlanEditor = ({
                   placeholder="e.g., Ground Floor"
                 />
               </div>
+
+              {(() => {
+                const dataRoom = dataRooms.find(r => r.id === newRoomData.dataRoomId);
+                if (!dataRoom || !headers) return null;
+                return (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="flex items-center text-muted-foreground">
+                      <Link2 className="h-3 w-3 mr-1" />
+                      Linked to {roomDisplayName(dataRoom, headers)} from the plan label
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      title="Don't link"
+                      onClick={() => setNewRoomData(prev => ({ ...prev, dataRoomId: undefined }))}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                );
+              })()}
               
               <div className="flex justify-end space-x-2">
                 <Button variant="outline" onClick={cancelDrawing}>
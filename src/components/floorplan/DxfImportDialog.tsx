@@ -0,0 +1,154 @@
+import { useEffect, useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DEFAULT_DXF_UNIT, DXF_UNITS, dxfRoomLayers, parseDxf, type DxfDrawing, type DxfImportOptions } from "@/lib/dxf";
+
+interface DxfImportDialogProps {
+  file: File | null;
+  defaultLevel: string;
+  onCancel: () => void;
+  onConfirm: (drawing: DxfDrawing, options: DxfImportOptions) => Promise<void>;
+}
+
+export const DxfImportDialog = ({ file, defaultLevel, onCancel, onConfirm }: DxfImportDialogProps) => {
+  const [drawing, setDrawing] = useState<DxfDrawing | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [level, setLevel] = useState("");
+  const [roomLayer, setRoomLayer] = useState("");
+  const [unit, setUnit] = useState(DEFAULT_DXF_UNIT);
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      setLevel(defaultLevel);
+      try {
+        const parsed = parseDxf(await file.text());
+        if (cancelled) return;
+        setDrawing(parsed);
+        setRoomLayer(dxfRoomLayers(parsed)[0]?.name ?? "");
+        setUnit(DXF_UNITS.some(u => u.code === parsed.insUnits) ? parsed.insUnits : DEFAULT_DXF_UNIT);
+      } catch (e) {
+        console.error("Failed to read DXF", e);
+        if (!cancelled) setError(e instanceof Error ? e.message : "Could not read this DXF file");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      setDrawing(null);
+    };
+  }, [file, defaultLevel]);
+
+  const layers = useMemo(() => (drawing ? dxfRoomLayers(drawing) : []), [drawing]);
+  const roomCount = layers.find(l => l.name === roomLayer)?.closedPaths ?? 0;
+  const labelCount = drawing?.entities.filter(e => e.kind === "text").length ?? 0;
+  const canImport = !!drawing && !!level.trim() && !importing;
+
+  const handleImport = async () => {
+    if (!drawing) return;
+    setImporting(true);
+    try {
+      const metresPerUnit = DXF_UNITS.find(u => u.code === unit)?.metres ?? 0.001;
+      await onConfirm(drawing, { level: level.trim(), roomLayer, metresPerUnit });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && !importing && onCancel()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import DXF Floor Plan</DialogTitle>
+          <DialogDescription>
+            {file?.name} — closed polylines on the room layer become rooms, named after the text inside them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="h-32 flex items-center justify-center text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Reading DXF...
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="dxf-level">Level name</Label>
+              <Input id="dxf-level" value={level} onChange={(e) => setLevel(e.target.value)} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Room layer</Label>
+              {layers.length > 0 ? (
+                <Select value={roomLayer} onValueChange={setRoomLayer}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {layers.map(layer => (
+                      <SelectItem key={layer.name} value={layer.name}>
+                        {layer.name} ({layer.closedPaths} closed outline{layer.closedPaths !== 1 ? 's' : ''})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No layer has closed polylines; the drawing will be imported as a background only.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Drawing units</Label>
+              <Select value={String(unit)} onValueChange={(v) => setUnit(Number(v))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DXF_UNITS.map(u => (
+                    <SelectItem key={u.code} value={String(u.code)}>{u.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {drawing && DXF_UNITS.some(u => u.code === drawing.insUnits)
+                  ? 'Read from the drawing. The level is calibrated from these units.'
+                  : "The drawing doesn't state its units. The level is calibrated from these units."}
+              </p>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              {roomCount} room{roomCount !== 1 ? 's' : ''}, {labelCount} text label{labelCount !== 1 ? 's' : ''}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={importing}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!canImport}>
+            {importing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,35 @@
+import { Layers } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface Level {
+  id: string;
+  level: string;
+}
+
+interface LevelSwitcherProps {
+  floors: Level[];
+  activeFloorId: string | null;
+  onFloorChange: (floorId: string) => void;
+  className?: string;
+}
+
+export const LevelSwitcher = ({ floors, activeFloorId, onFloorChange, className = "w-44" }: LevelSwitcherProps) => {
+  if (floors.length === 0) return null;
+
+  return (
+    <Select value={activeFloorId ?? undefined} onValueChange={onFloorChange}>
+      <SelectTrigger className={className}>
+        <Layers className="h-4 w-4 mr-2 text-muted-foreground" />
+        <SelectValue placeholder="Select level" />
+      </SelectTrigger>
+      <SelectContent>
+        {/* Highest level first, like a lift panel */}
+        {[...floors].reverse().map(floor => (
+          <SelectItem key={floor.id} value={floor.id}>
+            {floor.level}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
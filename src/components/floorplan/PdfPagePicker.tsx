@@ -0,0 +1,217 @@
+import { useEffect, useRef, useState } from "react";
+import { FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { nextLevelNames } from "@/lib/building";
+import { DEFAULT_PDF_DPI, PDF_DPI_OPTIONS, loadPdfDocument, renderPageThumbnail, type PdfDocument, type RasterizeOptions } from "@/lib/pdf";
+import type { Building } from "@/types/project";
+
+export interface PdfPageSelection {
+  pageNumber: number;
+  level: string;
+}
+
+interface PageEntry extends PdfPageSelection {
+  thumbnailUrl?: string;
+  selected: boolean;
+}
+
+interface PdfPagePickerProps {
+  file: File | null;
+  building: Building; // panoramas find their level by name, so new levels must not reuse one
+  onCancel: () => void;
+  onConfirm: (pages: PdfPageSelection[], options: RasterizeOptions) => Promise<void>;
+}
+
+export const PdfPagePicker = ({ file, building, onCancel, onConfirm }: PdfPagePickerProps) => {
+  const [pages, setPages] = useState<PageEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dpi, setDpi] = useState(DEFAULT_PDF_DPI);
+  const [cropToDrawing, setCropToDrawing] = useState(true);
+  // Read when a file is opened; later level changes keep the names already suggested
+  const buildingRef = useRef(building);
+  buildingRef.current = building;
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    const thumbnails: string[] = [];
+    let pdf: PdfDocument | null = null;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const loaded = await loadPdfDocument(file);
+        if (cancelled) {
+          loaded.destroy();
+          return;
+        }
+        pdf = loaded;
+        const levels = nextLevelNames(buildingRef.current, loaded.numPages);
+        const entries: PageEntry[] = Array.from({ length: loaded.numPages }, (_, i) => ({
+          pageNumber: i + 1,
+          level: levels[i],
+          selected: loaded.numPages === 1,
+        }));
+        setPages(entries);
+        setLoading(false);
+
+        // Thumbnails stream in one page at a time
+        for (const entry of entries) {
+          const url = await renderPageThumbnail(loaded, entry.pageNumber);
+          // The cleanup has already revoked the others; this one finished too late for it
+          if (cancelled) {
+            URL.revokeObjectURL(url);
+            return;
+          }
+          thumbnails.push(url);
+          setPages(prev => prev.map(p => (p.pageNumber === entry.pageNumber ? { ...p, thumbnailUrl: url } : p)));
+        }
+      } catch (e) {
+        // Closing the picker destroys the document under a thumbnail that is still rendering
+        if (cancelled) return;
+        console.error("Failed to read PDF", e);
+        setError("Could not read this PDF");
+        setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      // Free the document held by the pdf.js worker
+      pdf?.destroy();
+      thumbnails.forEach(url => URL.revokeObjectURL(url));
+      setPages([]);
+    };
+  }, [file]);
+
+  const updatePage = (pageNumber: number, patch: Partial<PageEntry>) => {
+    setPages(prev => prev.map(p => (p.pageNumber === pageNumber ? { ...p, ...patch } : p)));
+  };
+
+  const selectedPages = pages.filter(p => p.selected);
+  const existingLevels = new Set(building.floors.map(f => f.level));
+  const levelError = (page: PageEntry) => {
+    const level = page.level.trim();
+    if (existingLevels.has(level)) return "This building already has a level with this name";
+    if (selectedPages.filter(p => p.level.trim() === level).length > 1) return "Another page uses this name";
+    return null;
+  };
+  const canImport =
+    selectedPages.length > 0 && selectedPages.every(p => p.level.trim() && !levelError(p)) && !importing;
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      await onConfirm(
+        selectedPages.map(p => ({ pageNumber: p.pageNumber, level: p.level.trim() })),
+        { dpi, cropToDrawing }
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && !importing && onCancel()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import PDF Pages</DialogTitle>
+          <DialogDescription>
+            {file?.name} — pick the pages to import. Each page becomes its own level.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-6">
+          <div className="flex items-center gap-2">
+            <Label className="text-sm">Render DPI</Label>
+            <Select value={String(dpi)} onValueChange={(v) => setDpi(Number(v))}>
+              <SelectTrigger className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PDF_DPI_OPTIONS.map(option => (
+                  <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="pdf-crop" checked={cropToDrawing} onCheckedChange={setCropToDrawing} />
+            <Label htmlFor="pdf-crop" className="text-sm">Crop to drawing area</Label>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <ScrollArea className="h-[28rem] pr-3">
+          {loading ? (
+            <div className="h-40 flex items-center justify-center text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin mr-2" />
+              Reading PDF...
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              {pages.map(page => (
+                <div
+                  key={page.pageNumber}
+                  className={`border rounded-lg p-3 space-y-2 transition-colors ${
+                    page.selected ? 'border-primary bg-primary/5' : 'border-border'
+                  }`}
+                >
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <Checkbox
+                      checked={page.selected}
+                      onCheckedChange={(checked) => updatePage(page.pageNumber, { selected: checked === true })}
+                    />
+                    <span className="text-sm font-medium">Page {page.pageNumber}</span>
+                  </label>
+                  <div
+                    className="aspect-[4/3] bg-muted rounded flex items-center justify-center overflow-hidden cursor-pointer"
+                    onClick={() => updatePage(page.pageNumber, { selected: !page.selected })}
+                  >
+                    {page.thumbnailUrl ? (
+                      <img src={page.thumbnailUrl} alt={`Page ${page.pageNumber}`} className="max-w-full max-h-full object-contain" />
+                    ) : (
+                      <FileText className="h-8 w-8 text-muted-foreground" />
+                    )}
+                  </div>
+                  <Input
+                    value={page.level}
+                    onChange={(e) => updatePage(page.pageNumber, { level: e.target.value })}
+                    placeholder="Level name"
+                    className="h-8"
+                    disabled={!page.selected}
+                  />
+                  {page.selected && page.level.trim() && levelError(page) && (
+                    <p className="text-xs text-destructive">{levelError(page)}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={importing}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!canImport}>
+            {importing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import {selectedPages.length} level{selectedPages.length !== 1 ? 's' : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
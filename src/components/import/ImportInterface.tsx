@@ -6,75 +6,159 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import Papa from "papaparse";
 import * as XLSX from "xlsx";
+import { stripLinkColumns } from "@/lib/room-export";
+import type { RoomMergePlan } from "@/lib/room-merge";
+import { inferColumnSchemas, validateRows, type CellIssue } from "@/lib/column-schema";
+import { MergePreviewDialog, type PendingImport } from "@/components/import/MergePreviewDialog";
+import { ImportWizardDialog, type RawImport } from "@/components/import/ImportWizardDialog";
+import { SheetPickerDialog, type SheetSelection, type WorkbookSheet } from "@/components/import/SheetPickerDialog";
+import type { Room, RoomHeaders, RoomSource } from "@/types/project";
 
 interface ImportStats {
   totalRows: number;
   createdRooms: number;
   updatedRooms: number;
+  removedRooms: number;
   errors: string[];
+  warnings: string[];
 }
 
 interface ImportInterfaceProps {
-  onImportComplete: (data: any[], headers: { row1: string[]; row2: string[] }) => void;
+  existingRooms?: Room[];
+  existingHeaders?: RoomHeaders;
+  levels?: string[];
+  // `issues` lists cells that do not fit their column type; the import still goes ahead
+  onImportComplete: (rooms: Room[], headers: RoomHeaders, issues: CellIssue[]) => void;
 }
 
-export const ImportInterface = ({ onImportComplete }: ImportInterfaceProps) => {
+// Longer issue lists are summarised; the rooms table marks every invalid cell
+const MAX_LISTED_ISSUES = 20;
+
+const describeIssues = (issues: CellIssue[], headers: RoomHeaders) => {
+  const lines = issues.slice(0, MAX_LISTED_ISSUES).map(issue => {
+    const column = headers.row1[issue.column] || headers.row2[issue.column] || `Column ${issue.column + 1}`;
+    return `Data row ${issue.row}, ${column}: ${issue.message}`;
+  });
+  if (issues.length > MAX_LISTED_ISSUES) lines.push(`...and ${issues.length - MAX_LISTED_ISSUES} more invalid cells`);
+  return lines;
+};
+
+export const ImportInterface = ({ existingRooms = [], existingHeaders = { row1: [], row2: [] }, levels = [], onImportComplete }: ImportInterfaceProps) => {
   const [isUploading, setIsUploading] = useState(false);
   const [importStats, setImportStats] = useState<ImportStats | null>(null);
   const [dragActive, setDragActive] = useState(false);
+  const [workbook, setWorkbook] = useState<{ fileName: string; sheets: WorkbookSheet[] } | null>(null);
+  const [rawImport, setRawImport] = useState<RawImport | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+
+  // Replace every room; the new rooms get fresh ids, so links to the old ones are dropped
+  const replaceRooms = useCallback((pending: PendingImport) => {
+    const stamp = Date.now();
+    const rooms = pending.rows.map((row, index): Room => {
+      const source = pending.sources?.[index];
+      return { id: `room-${stamp}-${index}`, data: row, ...(source && { source }) };
+    });
+    const issues = validateRows(pending.rows, pending.headers.schema);
+    setImportStats({
+      totalRows: rooms.length,
+      createdRooms: rooms.length,
+      updatedRooms: 0,
+      removedRooms: existingRooms.length,
+      errors: describeIssues(issues, pending.headers),
+      warnings: [],
+    });
+    onImportComplete(rooms, pending.headers, issues);
+  }, [existingRooms.length, onImportComplete]);
+
+  const handleMerge = (rooms: Room[], plan: RoomMergePlan, keepRemoved: boolean) => {
+    if (!pendingImport) return;
+    const issues = validateRows(pendingImport.rows, pendingImport.headers.schema);
+    setImportStats({
+      totalRows: pendingImport.rows.length,
+      createdRooms: plan.added.length,
+      updatedRooms: plan.updated.length,
+      removedRooms: keepRemoved ? 0 : plan.removed.length,
+      errors: describeIssues(issues, pendingImport.headers),
+      warnings: plan.skipped.map(skip => `Data row ${skip.row} skipped: ${skip.reason}`),
+    });
+    onImportComplete(rooms, pendingImport.headers, issues);
+    setPendingImport(null);
+  };
 
   const processFile = useCallback(async (file: File) => {
     setIsUploading(true);
     setImportStats(null);
 
     try {
-      let data: any[][] = [];
+      let sheets: WorkbookSheet[] = [];
       
       if (file.name.endsWith('.csv')) {
         const text = await file.text();
         const result = Papa.parse(text, { header: false });
-        data = result.data as any[][];
+        sheets = [{ name: file.name, raw: result.data as unknown[][] }];
       } else if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
         const buffer = await file.arrayBuffer();
-        const workbook = XLSX.read(buffer);
-        const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-        data = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
+        const book = XLSX.read(buffer);
+        sheets = book.SheetNames.map(name => ({
+          name,
+          raw: XLSX.utils.sheet_to_json(book.Sheets[name], { header: 1 }) as unknown[][],
+        }));
       } else {
         throw new Error('Unsupported file format. Please upload CSV or Excel files.');
       }
 
-      if (data.length < 3) {
-        throw new Error('File must have at least 3 rows (2 header rows + data).');
+      sheets = sheets.filter(sheet => sheet.raw.length > 0);
+      if (!sheets.some(sheet => sheet.raw.length >= 2)) {
+        throw new Error('File must have a header row and at least one row of data.');
       }
 
-      const headers = {
-        row1: data[0] || [],
-        row2: data[1] || [],
-      };
-      
-      const roomData = data.slice(2).filter(row => row.some(cell => cell !== ''));
-      
-      const stats: ImportStats = {
-        totalRows: roomData.length,
-        createdRooms: roomData.length,
-        updatedRooms: 0,
-        errors: [],
-      };
-
-      setImportStats(stats);
-      onImportComplete(roomData, headers);
+      // Workbooks with several sheets pick their sheets first; the wizard then maps the columns
+      if (sheets.length > 1) {
+        setWorkbook({ fileName: file.name, sheets });
+      } else {
+        setRawImport({ fileName: file.name, sheets, tagSheets: false });
+      }
 
     } catch (error) {
       setImportStats({
         totalRows: 0,
         createdRooms: 0,
         updatedRooms: 0,
+        removedRooms: 0,
         errors: [error instanceof Error ? error.message : 'Unknown error occurred'],
+        warnings: [],
       });
     } finally {
       setIsUploading(false);
     }
-  }, [onImportComplete]);
+  }, []);
+
+  const handleSheetsConfirm = (selections: SheetSelection[]) => {
+    if (!workbook) return;
+    setRawImport({
+      fileName: workbook.fileName,
+      sheets: selections.map(sheet => ({ ...sheet, level: sheet.level || undefined })),
+      tagSheets: true,
+    });
+    setWorkbook(null);
+  };
+
+  const handleLayoutConfirm = (layoutHeaders: RoomHeaders, layoutRows: unknown[][], sources?: RoomSource[]) => {
+    if (!rawImport) return;
+    // Files exported from the rooms table may carry link columns; those are derived, not imported
+    const stripped = stripLinkColumns(layoutHeaders, layoutRows);
+    const { rows } = stripped;
+    const headers = { ...stripped.headers, schema: inferColumnSchemas(stripped.headers, rows, existingHeaders) };
+    const pending = { fileName: rawImport.fileName, headers, rows, sources };
+    setRawImport(null);
+
+    // With rooms already loaded, preview a merge so existing links can be kept
+    if (existingRooms.length > 0) {
+      setPendingImport(pending);
+    } else {
+      replaceRooms(pending);
+    }
+  };
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -98,7 +182,7 @@ export const ImportInterface = ({ onImportComplete }: ImportInterfaceProps) => {
       <div className="text-center">
         <h2 className="text-3xl font-bold mb-2">Import Room Data</h2>
         <p className="text-muted-foreground">
-          Upload your Excel or CSV file with room data (2 header rows required)
+          Upload your Excel or CSV file with room data, then map its columns
         </p>
       </div>
 
@@ -109,7 +193,7 @@ export const ImportInterface = ({ onImportComplete }: ImportInterfaceProps) => {
             <span>File Upload</span>
           </CardTitle>
           <CardDescription>
-            Expected format: Row 1 = human-readable names, Row 2 = internal codes, Rows 3+ = data
+            Usual format: Row 1 = human-readable names, Row 2 = internal codes, Rows 3+ = data. Other layouts can be mapped.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -156,7 +240,15 @@ export const ImportInterface = ({ onImportComplete }: ImportInterfaceProps) => {
 
           {importStats && (
             <div className="mt-6 space-y-4">
-              {importStats.errors.length > 0 ? (
+              {importStats.totalRows > 0 && (
+                <Alert className="border-vue-green/20 bg-vue-green/5">
+                  <CheckCircle className="h-4 w-4 text-vue-green" />
+                  <AlertDescription className="text-vue-green">
+                    Import successful! Ready to process room data.
+                  </AlertDescription>
+                </Alert>
+              )}
+              {importStats.errors.length > 0 && (
                 <Alert variant="destructive">
                   <AlertCircle className="h-4 w-4" />
                   <AlertDescription>
@@ -165,13 +257,6 @@ export const ImportInterface = ({ onImportComplete }: ImportInterfaceProps) => {
                     ))}
                   </AlertDescription>
                 </Alert>
-              ) : (
-                <Alert className="border-vue-green/20 bg-vue-green/5">
-                  <CheckCircle className="h-4 w-4 text-vue-green" />
-                  <AlertDescription className="text-vue-green">
-                    Import successful! Ready to process room data.
-                  </AlertDescription>
-                </Alert>
               )}
 
               <div className="flex flex-wrap gap-2">
@@ -186,11 +271,51 @@ export const ImportInterface = ({ onImportComplete }: ImportInterfaceProps) => {
                     Updated: {importStats.updatedRooms}
                   </Badge>
                 )}
+                {importStats.removedRooms > 0 && (
+                  <Badge variant="destructive">
+                    Removed: {importStats.removedRooms}
+                  </Badge>
+                )}
               </div>
+
+              {importStats.warnings.length > 0 && (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    {importStats.warnings.map((warning, index) => (
+                      <div key={index}>{warning}</div>
+                    ))}
+                  </AlertDescription>
+                </Alert>
+              )}
             </div>
           )}
         </CardContent>
       </Card>
+
+      <SheetPickerDialog
+        fileName={workbook?.fileName ?? ''}
+        sheets={workbook?.sheets ?? null}
+        levels={levels}
+        onCancel={() => setWorkbook(null)}
+        onConfirm={handleSheetsConfirm}
+      />
+      <ImportWizardDialog
+        file={rawImport}
+        onCancel={() => setRawImport(null)}
+        onConfirm={handleLayoutConfirm}
+      />
+      <MergePreviewDialog
+        pending={pendingImport}
+        existingRooms={existingRooms}
+        existingHeaders={existingHeaders}
+        onCancel={() => setPendingImport(null)}
+        onReplace={() => {
+          if (pendingImport) replaceRooms(pendingImport);
+          setPendingImport(null);
+        }}
+        onMerge={handleMerge}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,325 @@
+import { useEffect, useMemo, useState } from "react";
+import { Save, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import {
+  applyImportLayout,
+  deleteImportTemplate,
+  detectImportLayout,
+  findImportTemplate,
+  findMatchingHeaderRow,
+  loadImportTemplates,
+  saveImportTemplate,
+  type ImportLayout,
+  type ImportTemplate,
+} from "@/lib/import-templates";
+import { matchColumns, remapRow } from "@/lib/room-merge";
+import type { RoomFieldMap, RoomHeaders, RoomSource } from "@/types/project";
+
+export interface RawImportSheet {
+  name: string;
+  raw: unknown[][];
+  level?: string;
+}
+
+export interface RawImport {
+  fileName: string;
+  sheets: RawImportSheet[];
+  tagSheets: boolean; // record each room's source sheet and level
+}
+
+interface ImportWizardDialogProps {
+  file: RawImport | null;
+  onCancel: () => void;
+  // `sources` lines up with `rows` when sheets are tagged
+  onConfirm: (headers: RoomHeaders, rows: unknown[][], sources?: RoomSource[]) => void;
+}
+
+interface SheetReport {
+  name: string;
+  headerRow: number;
+  rows: number;
+  missing: string[]; // columns of the first sheet this sheet lacks; left empty
+  skipped: string[]; // columns of this sheet the first sheet lacks; not imported
+}
+
+interface ParsedImport {
+  headers: RoomHeaders;
+  rows: unknown[][];
+  sources: RoomSource[];
+  sheets: SheetReport[];
+}
+
+const isEmptyRow = (row: unknown[]) => !row.some(cell => cell !== '' && cell !== null && cell !== undefined);
+
+const labelledColumns = (headers: RoomHeaders) =>
+  headers.row1.map((name, column) => name || headers.row2[column]).flatMap((label, column) => (label ? [{ label, column }] : []));
+
+/**
+ * Apply one layout to every sheet. Later sheets find their own header row by the first
+ * sheet's column names and are matched to its columns by header, so sheets with a different
+ * banner height or column order still line up.
+ */
+const parseSheets = (sheets: RawImportSheet[], layout: ImportLayout): ParsedImport => {
+  const first = applyImportLayout(sheets[0].raw, layout);
+  const result: ParsedImport = { headers: first.headers, rows: [], sources: [], sheets: [] };
+  sheets.forEach((sheet, index) => {
+    const report: SheetReport = { name: sheet.name, headerRow: layout.headerRow, rows: 0, missing: [], skipped: [] };
+    let rows = first.rows;
+    if (index > 0) {
+      report.headerRow = findMatchingHeaderRow(sheet.raw, first.headers, layout.headerRow);
+      const own = applyImportLayout(sheet.raw, { ...layout, headerRow: report.headerRow });
+      const columns = matchColumns(own.headers, first.headers);
+      rows = own.rows.map(row => remapRow(row, columns));
+      report.missing = labelledColumns(first.headers).filter(({ column }) => columns[column] < 0).map(({ label }) => label);
+      report.skipped = labelledColumns(own.headers).filter(({ column }) => !columns.includes(column)).map(({ label }) => label);
+    }
+    rows.filter(row => !isEmptyRow(row)).forEach(row => {
+      result.rows.push(row);
+      result.sources.push({ sheet: sheet.name, ...(sheet.level && { level: sheet.level }) });
+      report.rows++;
+    });
+    result.sheets.push(report);
+  });
+  return result;
+};
+
+const PREVIEW_ROWS = 12;
+const NONE = "none";
+
+const FIELD_LABELS: { key: keyof RoomFieldMap; label: string; required: boolean }[] = [
+  { key: "id", label: "Room ID", required: true },
+  { key: "name", label: "Name", required: true },
+  { key: "level", label: "Level", required: false },
+  { key: "area", label: "Area (m²)", required: false },
+];
+
+export const ImportWizardDialog = ({ file, onCancel, onConfirm }: ImportWizardDialogProps) => {
+  const [layout, setLayout] = useState<ImportLayout | null>(null);
+  const [templates, setTemplates] = useState<ImportTemplate[]>([]);
+  const [templateName, setTemplateName] = useState("");
+  const [previewSheet, setPreviewSheet] = useState(0);
+
+  useEffect(() => {
+    if (!file) return;
+    // Layouts are detected and matched on the first sheet
+    const firstRaw = file.sheets[0].raw;
+    const saved = loadImportTemplates();
+    const match = findImportTemplate(firstRaw, saved);
+    setTemplates(saved);
+    setLayout(match ?? detectImportLayout(firstRaw));
+    setTemplateName(match?.name ?? "");
+    setPreviewSheet(0);
+    if (match) toast.info(`Using the "${match.name}" import template`);
+  }, [file]);
+
+  const parsed = useMemo(() => (file && layout ? parseSheets(file.sheets, layout) : null), [file, layout]);
+
+  if (!file || !layout || !parsed) return null;
+
+  const raw = file.sheets[previewSheet]?.raw ?? file.sheets[0].raw;
+  const columnCount = Math.max(parsed.headers.row1.length, ...raw.slice(0, PREVIEW_ROWS).map(row => row.length));
+  const columnLabel = (column: number) => parsed.headers.row1[column] || parsed.headers.row2[column] || `Column ${column + 1}`;
+  const mapped = new Map(FIELD_LABELS.filter(f => layout.fields[f.key] !== undefined).map(f => [layout.fields[f.key], f.label]));
+
+  const updateLayout = (patch: Partial<ImportLayout>) => setLayout(prev => (prev ? { ...prev, ...patch } : prev));
+  const updateField = (key: keyof RoomFieldMap, value: string) =>
+    updateLayout({ fields: { ...layout.fields, [key]: value === NONE ? undefined : Number(value) } });
+
+  const applyTemplate = (name: string) => {
+    const template = templates.find(t => t.name === name);
+    if (!template) return;
+    setLayout({ headerRow: template.headerRow, headerRowCount: template.headerRowCount, fields: template.fields });
+    setTemplateName(template.name);
+  };
+
+  const handleSaveTemplate = () => {
+    const name = templateName.trim();
+    if (!name) return;
+    setTemplates(saveImportTemplate(name, layout, file.sheets[0].raw));
+    toast.success(`Saved import template "${name}"`);
+  };
+
+  const handleDeleteTemplate = () => {
+    if (!window.confirm(`Delete import template "${templateName}"?`)) return;
+    setTemplates(deleteImportTemplate(templateName));
+    setTemplateName("");
+  };
+
+  // Later sheets may sit their headers on a different row
+  const headerRow = parsed.sheets[previewSheet]?.headerRow ?? layout.headerRow;
+  const rowClass = (index: number) => {
+    if (index < headerRow) return 'text-muted-foreground/60';
+    if (index < headerRow + layout.headerRowCount) return 'bg-primary/10 font-medium';
+    return '';
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Map Columns - {file.fileName}</DialogTitle>
+          <DialogDescription>
+            Choose the header rows and which columns hold the room fields. Rows above the headers are ignored.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label>Template</Label>
+            <Select value={templates.some(t => t.name === templateName) ? templateName : NONE} onValueChange={applyTemplate}>
+              <SelectTrigger>
+                <SelectValue placeholder="No template" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE} disabled>No template</SelectItem>
+                {templates.map(t => (
+                  <SelectItem key={t.name} value={t.name}>{t.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="header-row">Header row</Label>
+            <Input
+              id="header-row"
+              type="number"
+              min={1}
+              max={raw.length}
+              value={layout.headerRow + 1}
+              onChange={(e) => {
+                const row = parseInt(e.target.value, 10);
+                if (row >= 1 && row <= raw.length) updateLayout({ headerRow: row - 1 });
+              }}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Header rows</Label>
+            <Select value={String(layout.headerRowCount)} onValueChange={(value) => updateLayout({ headerRowCount: value === "2" ? 2 : 1 })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">Names only</SelectItem>
+                <SelectItem value="2">Names, then codes</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-4 gap-4">
+          {FIELD_LABELS.map(field => (
+            <div key={field.key} className="space-y-1">
+              <Label>{field.label}{field.required ? '' : ' (optional)'}</Label>
+              <Select
+                value={layout.fields[field.key] === undefined ? NONE : String(layout.fields[field.key])}
+                onValueChange={(value) => updateField(field.key, value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {!field.required && <SelectItem value={NONE}>Not in this file</SelectItem>}
+                  {Array.from({ length: columnCount }, (_, column) => (
+                    <SelectItem key={column} value={String(column)}>{columnLabel(column)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        {file.sheets.length > 1 && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-1">
+              {parsed.sheets.map((sheet, index) => (
+                <Button
+                  key={sheet.name}
+                  variant={index === previewSheet ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setPreviewSheet(index)}
+                >
+                  {sheet.name}
+                  <Badge variant={sheet.rows === 0 ? "destructive" : "secondary"} className="ml-2 text-[10px] px-1 py-0">
+                    {sheet.rows}
+                  </Badge>
+                </Button>
+              ))}
+            </div>
+            {parsed.sheets.filter(sheet => sheet.rows === 0 || sheet.missing.length > 0 || sheet.skipped.length > 0).map(sheet => (
+              <p key={sheet.name} className={`text-xs ${sheet.rows === 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                {sheet.name}: {sheet.rows} data row{sheet.rows !== 1 ? 's' : ''}
+                {sheet.missing.length > 0 && ` • no ${sheet.missing.join(', ')} column${sheet.missing.length !== 1 ? 's' : ''}`}
+                {sheet.skipped.length > 0 && ` • ${sheet.skipped.join(', ')} not in the first sheet, skipped`}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <ScrollArea className="h-72 border rounded">
+          <table className="text-xs border-collapse">
+            <tbody>
+              {raw.slice(0, Math.max(PREVIEW_ROWS, headerRow + layout.headerRowCount + 3)).map((row, index) => (
+                // The header row is chosen on the first sheet; later sheets follow it by column name
+                <tr
+                  key={index}
+                  className={`border-b ${previewSheet === 0 ? 'cursor-pointer hover:bg-muted/50' : ''} ${rowClass(index)}`}
+                  onClick={() => previewSheet === 0 && updateLayout({ headerRow: index })}
+                >
+                  <td className="px-2 py-1 text-muted-foreground text-right">{index + 1}</td>
+                  {Array.from({ length: columnCount }, (_, column) => (
+                    <td key={column} className={`px-2 py-1 whitespace-nowrap max-w-48 truncate ${mapped.has(column) ? 'bg-vue-green/10' : ''}`}>
+                      {index === headerRow && mapped.has(column) && (
+                        <Badge className="bg-vue-green mr-1 text-[10px] px-1 py-0">{mapped.get(column)}</Badge>
+                      )}
+                      {String(row[column] ?? '')}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </ScrollArea>
+
+        <div className="flex items-center space-x-2">
+          <Input
+            placeholder="Client name"
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+            className="max-w-xs"
+          />
+          <Button variant="outline" size="sm" onClick={handleSaveTemplate} disabled={!templateName.trim()}>
+            <Save className="h-4 w-4 mr-2" />
+            Save Template
+          </Button>
+          {templates.some(t => t.name === templateName) && (
+            <Button variant="ghost" size="sm" onClick={handleDeleteTemplate}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+          <span className="flex-1 text-right text-sm text-muted-foreground">
+            {parsed.rows.length} data row{parsed.rows.length !== 1 ? 's' : ''}
+          </span>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm(parsed.headers, parsed.rows, file.tagSheets ? parsed.sources : undefined)}
+            disabled={parsed.rows.length === 0}
+          >
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
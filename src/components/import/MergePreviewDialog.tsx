@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useState } from "react";
+import { ArrowRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { applyRoomMerge, guessKeyColumn, planRoomMerge, type RoomMergePlan } from "@/lib/room-merge";
+import { roomDisplayName } from "@/lib/room-links";
+import type { Room, RoomHeaders, RoomSource } from "@/types/project";
+
+export interface PendingImport {
+  fileName: string;
+  headers: RoomHeaders;
+  rows: unknown[][];
+  sources?: RoomSource[];
+}
+
+interface MergePreviewDialogProps {
+  pending: PendingImport | null;
+  existingRooms: Room[];
+  existingHeaders: RoomHeaders;
+  onCancel: () => void;
+  onReplace: () => void;
+  onMerge: (rooms: Room[], plan: RoomMergePlan, keepRemoved: boolean) => void;
+}
+
+export const MergePreviewDialog = ({ pending, existingRooms, existingHeaders, onCancel, onReplace, onMerge }: MergePreviewDialogProps) => {
+  const [keyColumn, setKeyColumn] = useState(0);
+  const [keepRemoved, setKeepRemoved] = useState(false);
+
+  useEffect(() => {
+    if (pending) {
+      setKeyColumn(guessKeyColumn(pending.headers));
+      setKeepRemoved(false);
+    }
+  }, [pending]);
+
+  const plan = useMemo(
+    () => (pending ? planRoomMerge(existingRooms, existingHeaders, pending.rows, pending.headers, keyColumn, pending.sources) : null),
+    [pending, existingRooms, existingHeaders, keyColumn]
+  );
+
+  if (!pending || !plan) return null;
+
+  const columnLabel = (column: number) =>
+    String(pending.headers.row1[column] || pending.headers.row2[column] || `Column ${column + 1}`);
+  const columnCount = Math.max(pending.headers.row1.length, pending.headers.row2.length);
+
+  const handleMerge = () => {
+    onMerge(applyRoomMerge(plan, existingHeaders, pending.headers, keepRemoved), plan, keepRemoved);
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Merge {pending.fileName}</DialogTitle>
+          <DialogDescription>
+            Rows are matched to existing rooms by the key column. Matched rooms keep their floor plan and panorama links.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-4">
+          <div className="space-y-1 flex-1">
+            <Label>Key column</Label>
+            <Select value={String(keyColumn)} onValueChange={(value) => setKeyColumn(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: columnCount }, (_, column) => (
+                  <SelectItem key={column} value={String(column)}>
+                    {columnLabel(column)}
+                    {pending.headers.row2[column] ? ` (${pending.headers.row2[column]})` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-wrap gap-2 pb-2">
+            <Badge className="bg-vue-green">Added: {plan.added.length}</Badge>
+            <Badge className="bg-sync-blue">Updated: {plan.updated.length}</Badge>
+            <Badge variant="secondary">Unchanged: {plan.unchanged.length}</Badge>
+            <Badge variant="destructive">Removed: {plan.removed.length}</Badge>
+            {plan.skipped.length > 0 && <Badge variant="outline">Skipped: {plan.skipped.length}</Badge>}
+          </div>
+        </div>
+
+        <ScrollArea className="h-80 pr-3">
+          <div className="space-y-4 text-sm">
+            {plan.updated.length > 0 && (
+              <section className="space-y-1">
+                <h4 className="font-medium">Updated rooms</h4>
+                {plan.updated.map(update => (
+                  <div key={update.room.id} className="border rounded px-3 py-2">
+                    <div className="font-medium">{roomDisplayName(update.room, pending.headers)}</div>
+                    {update.changes.map(change => (
+                      <div key={change.column} className="flex items-center text-xs text-muted-foreground">
+                        <span className="w-40 truncate">{columnLabel(change.column)}</span>
+                        <span className="line-through truncate max-w-40">{change.before || 'empty'}</span>
+                        <ArrowRight className="h-3 w-3 mx-2 flex-shrink-0" />
+                        <span className="text-foreground truncate max-w-40">{change.after || 'empty'}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </section>
+            )}
+            {plan.added.length > 0 && (
+              <section className="space-y-1">
+                <h4 className="font-medium">New rooms</h4>
+                <div className="flex flex-wrap gap-1">
+                  {plan.added.map(room => (
+                    <Badge key={room.id} variant="outline">{roomDisplayName(room, pending.headers)}</Badge>
+                  ))}
+                </div>
+              </section>
+            )}
+            {plan.removed.length > 0 && (
+              <section className="space-y-1">
+                <h4 className="font-medium">Not in this file</h4>
+                <div className="flex flex-wrap gap-1">
+                  {plan.removed.map(room => (
+                    <Badge key={room.id} variant="outline" className="text-destructive">{roomDisplayName(room, existingHeaders)}</Badge>
+                  ))}
+                </div>
+              </section>
+            )}
+            {plan.skipped.length > 0 && (
+              <section className="space-y-1">
+                <h4 className="font-medium">Skipped rows</h4>
+                {plan.skipped.map(skip => (
+                  <div key={skip.row} className="text-xs text-muted-foreground">
+                    Data row {skip.row}: {skip.reason}
+                  </div>
+                ))}
+              </section>
+            )}
+          </div>
+        </ScrollArea>
+
+        {plan.removed.length > 0 && (
+          <div className="flex items-center space-x-2">
+            <Checkbox id="keep-removed" checked={keepRemoved} onCheckedChange={(checked) => setKeepRemoved(checked === true)} />
+            <Label htmlFor="keep-removed" className="text-sm font-normal">
+              Keep the {plan.removed.length} room{plan.removed.length !== 1 ? 's' : ''} missing from this file
+            </Label>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={onReplace}>
+            Replace All
+          </Button>
+          <Button onClick={handleMerge}>
+            Apply Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
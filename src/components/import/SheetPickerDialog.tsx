@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { Sheet } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+export interface WorkbookSheet {
+  name: string;
+  raw: unknown[][];
+}
+
+export interface SheetSelection extends WorkbookSheet {
+  level: string;
+}
+
+interface SheetEntry extends SheetSelection {
+  rowCount: number;
+  selected: boolean;
+}
+
+interface SheetPickerDialogProps {
+  fileName: string;
+  sheets: WorkbookSheet[] | null;
+  levels: string[]; // existing building levels, matched to sheet names
+  onCancel: () => void;
+  onConfirm: (sheets: SheetSelection[]) => void;
+}
+
+// Cover and notes sheets rarely have more rows than this
+const MIN_SCHEDULE_ROWS = 3;
+
+const filledRows = (raw: unknown[][]) =>
+  raw.filter(row => row.some(cell => cell !== '' && cell !== null && cell !== undefined)).length;
+
+export const SheetPickerDialog = ({ fileName, sheets, levels, onCancel, onConfirm }: SheetPickerDialogProps) => {
+  const [entries, setEntries] = useState<SheetEntry[]>([]);
+
+  useEffect(() => {
+    if (!sheets) return;
+    setEntries(sheets.map(sheet => {
+      const rowCount = filledRows(sheet.raw);
+      const level = levels.find(l => l.trim().toLowerCase() === sheet.name.trim().toLowerCase()) ?? sheet.name;
+      return { ...sheet, level, rowCount, selected: rowCount >= MIN_SCHEDULE_ROWS };
+    }));
+  }, [sheets, levels]);
+
+  const updateEntry = (name: string, patch: Partial<SheetEntry>) => {
+    setEntries(prev => prev.map(e => (e.name === name ? { ...e, ...patch } : e)));
+  };
+
+  const selected = entries.filter(e => e.selected);
+
+  return (
+    <Dialog open={!!sheets} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Choose Sheets - {fileName}</DialogTitle>
+          <DialogDescription>
+            Rooms from each sheet are tagged with the sheet and the level you give it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-96 pr-3">
+          <div className="space-y-2">
+            {entries.map(entry => (
+              <div key={entry.name} className="flex items-center space-x-3 border rounded px-3 py-2">
+                <Checkbox
+                  checked={entry.selected}
+                  onCheckedChange={(checked) => updateEntry(entry.name, { selected: checked === true })}
+                />
+                <Sheet className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <span className="flex-1 min-w-0 truncate text-sm font-medium">{entry.name}</span>
+                <Badge variant="secondary" className="text-xs">
+                  {entry.rowCount} row{entry.rowCount !== 1 ? 's' : ''}
+                </Badge>
+                <Input
+                  value={entry.level}
+                  onChange={(e) => updateEntry(entry.name, { level: e.target.value })}
+                  placeholder="Level"
+                  className="h-8 w-40"
+                  disabled={!entry.selected}
+                  list="sheet-picker-levels"
+                />
+              </div>
+            ))}
+          </div>
+          <datalist id="sheet-picker-levels">
+            {levels.map(level => (
+              <option key={level} value={level} />
+            ))}
+          </datalist>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm(selected.map(({ name, raw, level }) => ({ name, raw, level: level.trim() })))}
+            disabled={selected.length === 0}
+          >
+            Import {selected.length} sheet{selected.length !== 1 ? 's' : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,12 +1,27 @@
-import { Upload, Database, Link2, Play, Image as ImageIcon, Map, GitBranch } from "lucide-react";
+import { useRef } from "react";
+import { Upload, Database, Link2, Play, Image as ImageIcon, Map, GitBranch, Save, FolderOpen, WifiOff, AlertTriangle, Undo2, Redo2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+import { BUNDLE_EXTENSION } from "@/lib/project-bundle";
 
 interface HeaderProps {
   activeTab: string;
   onTabChange: (tab: string) => void;
+  onSaveProject?: () => void;
+  onOpenProject?: (file: File) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  linkIssueCount?: number;
+  onShowLinkIssues?: () => void;
 }
 
-export const Header = ({ activeTab, onTabChange }: HeaderProps) => {
+export const Header = ({ activeTab, onTabChange, onSaveProject, onOpenProject, onUndo, onRedo, canUndo = false, canRedo = false, linkIssueCount = 0, onShowLinkIssues }: HeaderProps) => {
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const isOnline = useOnlineStatus();
+
   const tabs = [
     { id: "import", label: "Import Room Data", icon: Upload },
     { id: "rooms", label: "Rooms Table", icon: Database },
@@ -29,6 +44,23 @@ export const Header = ({ activeTab, onTabChange }: HeaderProps) => {
           </div>
           <div className="h-6 w-px bg-border"></div>
           <span className="text-sm text-muted-foreground">Room Data Management Demo</span>
+          {!isOnline && (
+            <Badge variant="outline" className="border-orange-300 text-orange-600" title="Working offline - changes are saved on this device">
+              <WifiOff className="mr-1 h-3 w-3" />
+              Offline
+            </Badge>
+          )}
+          {linkIssueCount > 0 && (
+            <Badge
+              variant="outline"
+              className="border-amber-300 text-amber-600 cursor-pointer"
+              title="Show room link problems"
+              onClick={onShowLinkIssues}
+            >
+              <AlertTriangle className="mr-1 h-3 w-3" />
+              {linkIssueCount} link issue{linkIssueCount !== 1 ? 's' : ''}
+            </Badge>
+          )}
         </div>
         
         <nav className="flex items-center space-x-1">
@@ -47,6 +79,32 @@ export const Header = ({ activeTab, onTabChange }: HeaderProps) => {
               </Button>
             );
           })}
+          <div className="h-6 w-px bg-border mx-2"></div>
+          <Button variant="ghost" size="sm" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={onSaveProject} disabled={!onSaveProject}>
+            <Save className="mr-2 h-4 w-4" />
+            Save Project
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => projectInputRef.current?.click()} disabled={!onOpenProject}>
+            <FolderOpen className="mr-2 h-4 w-4" />
+            Open Project
+          </Button>
+          <input
+            ref={projectInputRef}
+            type="file"
+            accept={`${BUNDLE_EXTENSION},application/zip`}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onOpenProject?.(file);
+              e.target.value = '';
+            }}
+          />
         </nav>
       </div>
     </header>
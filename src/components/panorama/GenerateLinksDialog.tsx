@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { ArrowRight, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { HotspotSuggestion } from "@/lib/tour-links";
+import type { PanoramaItem } from "@/types/project";
+
+interface GenerateLinksDialogProps {
+  suggestions: HotspotSuggestion[] | null;
+  panoramas: PanoramaItem[];
+  distanceUnit: string;
+  onCancel: () => void;
+  onConfirm: (accepted: HotspotSuggestion[]) => void;
+}
+
+export const GenerateLinksDialog = ({ suggestions, panoramas, distanceUnit, onCancel, onConfirm }: GenerateLinksDialogProps) => {
+  const [items, setItems] = useState<HotspotSuggestion[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setItems(suggestions ?? []);
+    setSelected(new Set((suggestions ?? []).map(s => s.hotspot.id)));
+  }, [suggestions]);
+
+  const titleOf = (nodeId: string) => {
+    const pano = panoramas.find(p => p.nodeId === nodeId);
+    return pano?.title || nodeId;
+  };
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const remove = (id: string) => {
+    setItems(prev => prev.filter(s => s.hotspot.id !== id));
+    toggle(id, false);
+  };
+
+  const accepted = items.filter(s => selected.has(s.hotspot.id));
+
+  return (
+    <Dialog open={!!suggestions} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Generate Links</DialogTitle>
+          <DialogDescription>
+            Suggested links between panoramas in the same or adjacent rooms. Untick or remove any you don't want.
+          </DialogDescription>
+        </DialogHeader>
+
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            No new links found. Place panoramas inside room polygons to generate links.
+          </p>
+        ) : (
+          <ScrollArea className="h-96 pr-3">
+            <div className="space-y-1">
+              {items.map(s => (
+                <div key={s.hotspot.id} className="flex items-center space-x-3 border rounded px-3 py-2 text-sm">
+                  <Checkbox
+                    checked={selected.has(s.hotspot.id)}
+                    onCheckedChange={(checked) => toggle(s.hotspot.id, checked === true)}
+                  />
+                  <span className="flex-1 min-w-0 flex items-center truncate">
+                    <span className="truncate">{titleOf(s.fromNodeId)}</span>
+                    <ArrowRight className="h-3 w-3 mx-2 flex-shrink-0 text-muted-foreground" />
+                    <span className="truncate">{titleOf(s.hotspot.targetNodeId)}</span>
+                  </span>
+                  <Badge variant={s.sameRoom ? 'secondary' : 'outline'} className="text-xs">
+                    {s.sameRoom ? 'Same room' : 'Adjacent'}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground w-16 text-right">
+                    {s.distance.toFixed(1)} {distanceUnit}
+                  </span>
+                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => remove(s.hotspot.id)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(accepted)} disabled={accepted.length === 0}>
+            Add {accepted.length} link{accepted.length !== 1 ? 's' : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
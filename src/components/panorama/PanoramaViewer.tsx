@@ -1,46 +1,112 @@
-import { useEffect, useRef, useState } from "react";
-import { ChevronLeft, ChevronRight, RotateCw, AlertCircle, RefreshCw } from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ChevronLeft, ChevronRight, RotateCw, AlertCircle, RefreshCw, Link2, Trash2, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { PanoramaItem } from "../panoramas/PanoramasManager";
+import { pannellum, type PannellumHotSpot, type PannellumViewer } from "@/lib/pannellum";
+import type { PanoramaHotspot } from "@/types/project";
 
 interface PanoramaViewerProps {
   panoramas: PanoramaItem[];
   currentNodeId: string;
   onPanoramaChange: (nodeId: string) => void;
+  // Every panorama a hotspot may point at; defaults to `panoramas`
+  linkTargets?: PanoramaItem[];
+  // Enables hotspot authoring when provided
+  onHotspotsChange?: (nodeId: string, hotspots: PanoramaHotspot[]) => void;
+  onViewChange?: (view: PanoramaView) => void;
 }
 
-export const PanoramaViewer = ({ panoramas, currentNodeId, onPanoramaChange }: PanoramaViewerProps) => {
+export interface PanoramaView {
+  yaw: number;
+  pitch: number;
+  hfov: number;
+}
+
+interface HotspotDraft {
+  yaw: number;
+  pitch: number;
+  targetNodeId: string;
+  targetYaw: string;
+  targetPitch: string;
+}
+
+// How often the current view direction is reported (ms)
+const VIEW_POLL_INTERVAL = 100;
+
+// Pointer travel (px) below which a press on the panorama counts as a click rather than a drag
+const CLICK_TOLERANCE = 4;
+
+export const PanoramaViewer = ({ panoramas, currentNodeId, onPanoramaChange, linkTargets, onHotspotsChange, onViewChange }: PanoramaViewerProps) => {
   const viewerRef = useRef<HTMLDivElement>(null);
-  const [viewer, setViewer] = useState<any>(null);
+  const [viewer, setViewer] = useState<PannellumViewer | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [yaw, setYaw] = useState(0);
   const [pitch, setPitch] = useState(0);
+  const [loadedNodeId, setLoadedNodeId] = useState<string | null>(null);
+  const [editingLinks, setEditingLinks] = useState(false);
+  const [draft, setDraft] = useState<HotspotDraft | null>(null);
 
   const currentPano = panoramas.find(p => p.nodeId === currentNodeId);
   const currentIndex = panoramas.findIndex(p => p.nodeId === currentNodeId);
+  const targets = linkTargets ?? panoramas;
+
+  // Hotspots whose target still exists
+  const hotspots = useMemo(
+    () => (currentPano?.hotspots ?? []).filter(h => targets.some(t => t.nodeId === h.targetNodeId)),
+    [currentPano?.hotspots, targets]
+  );
+
+  // Pannellum keeps the handlers it was given, so they read the latest props through refs
+  const pendingViewRef = useRef<{ yaw?: number; pitch?: number } | null>(null);
+  const renderedHotspotIdsRef = useRef<string[]>([]);
+  const pointerDownRef = useRef<{ x: number; y: number } | null>(null);
+  const onViewChangeRef = useRef(onViewChange);
+  onViewChangeRef.current = onViewChange;
+  const editingLinksRef = useRef(editingLinks);
+  editingLinksRef.current = editingLinks;
+  const followHotspotRef = useRef<(hotspot: PanoramaHotspot) => void>(() => {});
+  followHotspotRef.current = (hotspot: PanoramaHotspot) => {
+    if (editingLinksRef.current) return;
+    pendingViewRef.current = { yaw: hotspot.targetYaw, pitch: hotspot.targetPitch };
+    onPanoramaChange(hotspot.targetNodeId);
+  };
+
+  const toPannellumHotSpot = useCallback((hotspot: PanoramaHotspot): PannellumHotSpot => {
+    const target = targets.find(t => t.nodeId === hotspot.targetNodeId);
+    return {
+      id: hotspot.id,
+      yaw: hotspot.yaw,
+      pitch: hotspot.pitch,
+      type: "scene",
+      text: target?.title || hotspot.targetNodeId,
+      clickHandlerFunc: () => followHotspotRef.current(hotspot),
+    };
+  }, [targets]);
+
+  // The viewer is only rebuilt for a new image; the rest of its starting state is read from here
+  const startRef = useRef({ pano: currentPano, hotSpots: [] as PannellumHotSpot[] });
+  startRef.current = { pano: currentPano, hotSpots: hotspots.map(toPannellumHotSpot) };
+  const imageUrl = currentPano?.imageUrl;
 
   // Initialize Pannellum viewer
   useEffect(() => {
-    if (!viewerRef.current || !currentPano?.imageUrl) return;
+    const container = viewerRef.current;
+    if (!container || !imageUrl) return;
+    let cancelled = false;
+    let instance: PannellumViewer | null = null;
 
     const initViewer = async () => {
       setLoading(true);
       setError(null);
 
       try {
-        // Clean up existing viewer
-        if (viewer) {
-          try {
-            viewer.destroy();
-          } catch (e) {
-            console.warn("Error destroying previous viewer:", e);
-          }
-        }
-
         // Validate image dimensions (should be 2:1 for equirectangular)
         const img = new Image();
         img.crossOrigin = "anonymous";
@@ -55,33 +121,20 @@ export const PanoramaViewer = ({ panoramas, currentNodeId, onPanoramaChange }: P
             resolve(img);
           };
           img.onerror = () => reject(new Error("Failed to load panorama image. Check network connection and CORS settings."));
-          img.src = currentPano.imageUrl!;
+          img.src = imageUrl;
         });
+        if (cancelled) return;
 
-        // Load pannellum from global script
-        if (typeof window !== 'undefined' && !(window as any).pannellum) {
-          // Create and load pannellum script
-          const script = document.createElement('script');
-          script.src = 'https://cdn.jsdelivr.net/npm/pannellum@2.5.6/build/pannellum.js';
-          document.head.appendChild(script);
-          
-          await new Promise((resolve, reject) => {
-            script.onload = resolve;
-            script.onerror = reject;
-          });
-
-          // Load CSS
-          const css = document.createElement('link');
-          css.rel = 'stylesheet';
-          css.href = 'https://cdn.jsdelivr.net/npm/pannellum@2.5.6/build/pannellum.css';
-          document.head.appendChild(css);
-        }
+        const { pano, hotSpots } = startRef.current;
+        // A hotspot may ask for a specific arrival direction
+        const arrival = pendingViewRef.current;
+        pendingViewRef.current = null;
+        setLoadedNodeId(null);
 
         // Create viewer instance with proper configuration
-        const pannellum = (window as any).pannellum;
-        const viewerInstance = pannellum.viewer(viewerRef.current, {
+        const viewerInstance = pannellum.viewer(container, {
           type: "equirectangular",
-          panorama: currentPano.imageUrl,
+          panorama: imageUrl,
           autoLoad: true,
           showZoomCtrl: false,
           showFullscreenCtrl: false,
@@ -89,19 +142,23 @@ export const PanoramaViewer = ({ panoramas, currentNodeId, onPanoramaChange }: P
           doubleClickZoom: true,
           keyboardZoom: false,
           hfov: 90,
-          pitch: currentPano.pitchOffset || 0,
-          yaw: currentPano.yawOffset || 0,
+          pitch: arrival?.pitch ?? (pano?.pitchOffset || 0),
+          yaw: arrival?.yaw ?? (pano?.yawOffset || 0),
           minHfov: 30,
           maxHfov: 120,
+          hotSpots,
         });
+        instance = viewerInstance;
+        renderedHotspotIdsRef.current = hotSpots.map(h => h.id);
 
         // Attach events
         try {
           viewerInstance.on('load', () => {
             console.log('Panorama loaded successfully');
             setLoading(false);
+            setLoadedNodeId(pano?.nodeId ?? null);
           });
-          viewerInstance.on('error', (err: any) => {
+          viewerInstance.on('error', (err: unknown) => {
             console.error('Pannellum error:', err);
             setError(typeof err === 'string' ? `Viewer error: ${err}` : 'Viewer error');
             setLoading(false);
@@ -114,6 +171,7 @@ export const PanoramaViewer = ({ panoramas, currentNodeId, onPanoramaChange }: P
         setViewer(viewerInstance);
 
       } catch (err) {
+        if (cancelled) return;
         console.error("Failed to initialize panorama viewer:", err);
         setError(err instanceof Error ? err.message : "Failed to initialize panorama viewer");
         setLoading(false);
@@ -123,15 +181,88 @@ export const PanoramaViewer = ({ panoramas, currentNodeId, onPanoramaChange }: P
     initViewer();
 
     return () => {
-      if (viewer) {
+      cancelled = true;
+      if (instance) {
         try {
-          viewer.destroy();
+          instance.destroy();
         } catch (e) {
           console.warn("Error destroying viewer:", e);
         }
+        setViewer(null);
+      }
+    };
+  }, [imageUrl]);
+
+  // Keep the rendered hotspots in step with edits once the panorama has loaded
+  useEffect(() => {
+    if (!viewer || loadedNodeId !== currentNodeId) return;
+    try {
+      renderedHotspotIdsRef.current.forEach(id => viewer.removeHotSpot(id));
+      hotspots.forEach(h => viewer.addHotSpot(toPannellumHotSpot(h)));
+      renderedHotspotIdsRef.current = hotspots.map(h => h.id);
+    } catch (e) {
+      console.warn("Failed to update hotspots:", e);
+    }
+  }, [viewer, loadedNodeId, currentNodeId, hotspots, toPannellumHotSpot]);
+
+  // Pointer events cover mouse, touch and pen, so links can be placed on tablets too
+  const handlePointerDown = (e: React.PointerEvent) => {
+    pointerDownRef.current = e.isPrimary ? { x: e.clientX, y: e.clientY } : null;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const down = pointerDownRef.current;
+    pointerDownRef.current = null;
+    if (!editingLinks || !down || !viewer || !e.isPrimary) return;
+    if (Math.hypot(e.clientX - down.x, e.clientY - down.y) > CLICK_TOLERANCE) return;
+    const [clickPitch, clickYaw] = viewer.mouseEventToCoords(e.nativeEvent);
+    setDraft({ yaw: clickYaw, pitch: clickPitch, targetNodeId: '', targetYaw: '', targetPitch: '' });
+  };
+
+  // Pannellum has no view-change event, so poll the view while a panorama is showing
+  useEffect(() => {
+    if (!viewer || loadedNodeId !== currentNodeId) return;
+    let last: PanoramaView | null = null;
+    const timer = window.setInterval(() => {
+      if (!onViewChangeRef.current) return;
+      try {
+        const view = { yaw: viewer.getYaw(), pitch: viewer.getPitch(), hfov: viewer.getHfov() };
+        if (!last || view.yaw !== last.yaw || view.pitch !== last.pitch || view.hfov !== last.hfov) {
+          last = view;
+          onViewChangeRef.current(view);
+        }
+      } catch {
+        // The viewer may be mid-destroy
       }
+    }, VIEW_POLL_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, [viewer, loadedNodeId, currentNodeId]);
+
+  // Leaving a panorama discards any half-placed link
+  useEffect(() => {
+    setDraft(null);
+  }, [currentNodeId]);
+
+  const saveDraft = () => {
+    if (!draft?.targetNodeId || !currentPano || !onHotspotsChange) return;
+    const targetYaw = parseFloat(draft.targetYaw);
+    const targetPitch = parseFloat(draft.targetPitch);
+    const hotspot: PanoramaHotspot = {
+      id: `hotspot-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+      yaw: draft.yaw,
+      pitch: draft.pitch,
+      targetNodeId: draft.targetNodeId,
+      targetYaw: Number.isFinite(targetYaw) ? targetYaw : undefined,
+      targetPitch: Number.isFinite(targetPitch) ? targetPitch : undefined,
     };
-  }, [currentPano?.imageUrl]);
+    onHotspotsChange(currentPano.nodeId, [...(currentPano.hotspots ?? []), hotspot]);
+    setDraft(null);
+  };
+
+  const deleteHotspot = (id: string) => {
+    if (!currentPano || !onHotspotsChange) return;
+    onHotspotsChange(currentPano.nodeId, (currentPano.hotspots ?? []).filter(h => h.id !== id));
+  };
 
   const navigatePanorama = (direction: 'prev' | 'next') => {
     if (panoramas.length === 0) return;
@@ -233,6 +364,20 @@ export const PanoramaViewer = ({ panoramas, currentNodeId, onPanoramaChange }: P
             >
               <RotateCw className="h-4 w-4" />
             </Button>
+
+            {onHotspotsChange && (
+              <Button
+                variant={editingLinks ? 'default' : 'outline'}
+                size="sm"
+                title="Edit links to other panoramas"
+                onClick={() => {
+                  setEditingLinks(!editingLinks);
+                  setDraft(null);
+                }}
+              >
+                <Link2 className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </div>
 
@@ -270,9 +415,100 @@ export const PanoramaViewer = ({ panoramas, currentNodeId, onPanoramaChange }: P
             ref={viewerRef} 
             className="w-full h-full"
             style={{ minHeight: "400px" }}
+            onPointerDownCapture={handlePointerDown}
+            onPointerUpCapture={handlePointerUp}
+            onPointerCancelCapture={() => { pointerDownRef.current = null; }}
           />
+
+          {editingLinks && !draft && (
+            <div className="absolute top-2 left-2 z-10 bg-background/90 rounded px-2 py-1 text-xs">
+              Tap or click where the link should appear
+            </div>
+          )}
+
+          {draft && (
+            <div className="absolute top-2 left-2 z-20 w-64 bg-background rounded-lg border shadow-lg p-3 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">New link</span>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setDraft(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Yaw {draft.yaw.toFixed(1)}°, pitch {draft.pitch.toFixed(1)}°
+              </p>
+              <Select
+                value={draft.targetNodeId}
+                onValueChange={(targetNodeId) => setDraft({ ...draft, targetNodeId })}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue placeholder="Target panorama" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targets.filter(t => t.nodeId !== currentNodeId).map(t => (
+                    <SelectItem key={t.nodeId} value={t.nodeId}>
+                      {t.title || t.nodeId}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="space-y-1">
+                <Label className="text-xs">Arrival view (optional)</Label>
+                <div className="flex space-x-2">
+                  <Input
+                    type="number"
+                    value={draft.targetYaw}
+                    onChange={(e) => setDraft({ ...draft, targetYaw: e.target.value })}
+                    placeholder="Yaw°"
+                    className="h-8"
+                  />
+                  <Input
+                    type="number"
+                    value={draft.targetPitch}
+                    onChange={(e) => setDraft({ ...draft, targetPitch: e.target.value })}
+                    placeholder="Pitch°"
+                    className="h-8"
+                  />
+                </div>
+              </div>
+              <Button size="sm" className="w-full" onClick={saveDraft} disabled={!draft.targetNodeId}>
+                Add Link
+              </Button>
+            </div>
+          )}
         </div>
 
+        {/* Hotspot List */}
+        {editingLinks && (
+          <div className="mt-4 space-y-1">
+            {hotspots.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No links from this panorama yet.</p>
+            ) : (
+              hotspots.map(h => {
+                const target = targets.find(t => t.nodeId === h.targetNodeId);
+                return (
+                  <div key={h.id} className="flex items-center justify-between text-sm border rounded px-2 py-1">
+                    <span className="truncate">
+                      {target?.title || h.targetNodeId}
+                      <span className="text-xs text-muted-foreground ml-2">
+                        {h.yaw.toFixed(0)}° / {h.pitch.toFixed(0)}°
+                      </span>
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                      onClick={() => deleteHotspot(h.id)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
+
         {/* Thumbnail Navigation */}
         {panoramas.length > 1 && (
           <div className="mt-4 flex space-x-2 overflow-x-auto pb-2">
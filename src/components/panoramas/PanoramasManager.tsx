@@ -7,29 +7,19 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { panoramaRoomKey } from "@/lib/room-links";
+import type { PanoramaItem } from "@/types/project";
 
-export interface PanoramaItem {
-  nodeId: string;
-  title: string;
-  floor?: string;
-  fileName?: string;
-  imageUrl?: string;
-  width?: number;
-  height?: number;
-  yawOffset?: number;
-  pitchOffset?: number;
-  rollOffset?: number;
-  metadata?: any;
-  roomId?: string;
-}
+export type { PanoramaItem };
 
 interface PanoramasManagerProps {
   panoramas: PanoramaItem[];
   onChange: (items: PanoramaItem[]) => void;
+  onAssignRoom: (nodeId: string, roomKey: string | null) => void;
   rooms?: { id: string; name: string }[];
 }
 
-export const PanoramasManager = ({ panoramas, onChange, rooms = [] }: PanoramasManagerProps) => {
+export const PanoramasManager = ({ panoramas, onChange, onAssignRoom, rooms = [] }: PanoramasManagerProps) => {
   const [isUploading, setIsUploading] = useState(false);
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
 
@@ -40,22 +30,24 @@ export const PanoramasManager = ({ panoramas, onChange, rooms = [] }: PanoramasM
   };
 
   const deletePanorama = (nodeId: string) => {
-    onChange(panoramas.filter(p => p.nodeId !== nodeId));
+    // Drop links pointing at the deleted panorama as well
+    onChange(panoramas
+      .filter(p => p.nodeId !== nodeId)
+      .map(p => p.hotspots?.some(h => h.targetNodeId === nodeId)
+        ? { ...p, hotspots: p.hotspots.filter(h => h.targetNodeId !== nodeId) }
+        : p));
   };
 
   const handleAssignRoom = (nodeId: string, newRoomId: string | null) => {
-    const next = panoramas.map(p => {
-      if (p.nodeId !== nodeId) return p;
-      const prevRoomId = p.roomId;
-      if (prevRoomId && prevRoomId !== newRoomId) {
-        const prevName = getRoomName(prevRoomId);
-        const nextName = getRoomName(newRoomId || undefined);
-        const ok = window.confirm(`This panorama is already assigned to "${prevName}".\nChange assignment to "${nextName}"?`);
-        if (!ok) return p;
-      }
-      return { ...p, roomId: newRoomId || undefined };
-    });
-    onChange(next);
+    const pano = panoramas.find(p => p.nodeId === nodeId);
+    const prevRoomId = pano ? panoramaRoomKey(pano) : null;
+    if (prevRoomId && prevRoomId !== newRoomId) {
+      const prevName = getRoomName(prevRoomId);
+      const nextName = getRoomName(newRoomId || undefined);
+      const ok = window.confirm(`This panorama is already assigned to "${prevName}".\nChange assignment to "${nextName}"?`);
+      if (!ok) return;
+    }
+    onAssignRoom(nodeId, newRoomId);
     if (newRoomId) {
       setMessage({ type: 'success', text: `Panorama ${nodeId} assigned to ${getRoomName(newRoomId)}` });
     }
@@ -83,7 +75,9 @@ export const PanoramasManager = ({ panoramas, onChange, rooms = [] }: PanoramasM
     // upsert new ones
     items.forEach(p => {
       if (!p.nodeId || !p.title) return;
+      // Re-uploading an image keeps the panorama's room links, position and hotspots
       map.set(p.nodeId, { 
+        ...map.get(p.nodeId),
         nodeId: String(p.nodeId), 
         title: String(p.title), 
         floor: p.floor ? String(p.floor) : undefined,
@@ -292,14 +286,14 @@ export const PanoramasManager = ({ panoramas, onChange, rooms = [] }: PanoramasM
                       </td>
                       <td className="p-2 font-mono text-sm">
                         <span title={p.nodeId}>
-                          {p.roomId ? `${getRoomName(p.roomId)}-${p.nodeId}` : p.nodeId}
+                          {panoramaRoomKey(p) ? `${getRoomName(panoramaRoomKey(p)!)}-${p.nodeId}` : p.nodeId}
                         </span>
                       </td>
                       <td className="p-2">{p.title}</td>
                       <td className="p-2 text-sm text-muted-foreground">{p.fileName || '-'}</td>
                       <td className="p-2">
                         <Select
-                          value={p.roomId ?? 'unassigned'}
+                          value={panoramaRoomKey(p) ?? 'unassigned'}
                           onValueChange={(val) => handleAssignRoom(p.nodeId, val === 'unassigned' ? null : val)}
                         >
                           <SelectTrigger className="w-44 z-[60]">
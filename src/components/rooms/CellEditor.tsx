@@ -0,0 +1,87 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RAG_VALUES, formatCell, parseBoolean, parseDate, parseNumber, parseRag } from "@/lib/column-schema";
+import type { ColumnSchema } from "@/types/project";
+
+interface CellEditorProps {
+  value: unknown;
+  schema: ColumnSchema;
+  onCommit: (value: string) => void;
+  onCancel: () => void;
+}
+
+// Select items cannot have an empty value
+const EMPTY = "__empty";
+
+const choices = (schema: ColumnSchema): string[] => {
+  if (schema.type === "boolean") return ["Yes", "No"];
+  if (schema.type === "rag") return [...RAG_VALUES];
+  return schema.options ?? [];
+};
+
+/** The value the editor starts from, in the form the editor itself produces. */
+const initialValue = (value: unknown, schema: ColumnSchema) => {
+  if (value === null || value === undefined) return "";
+  switch (schema.type) {
+    case "number":
+      return parseNumber(value)?.toString() ?? String(value);
+    case "date":
+      return parseDate(value) ?? "";
+    case "boolean":
+      return parseBoolean(value) === null ? String(value) : parseBoolean(value) ? "Yes" : "No";
+    case "rag":
+      return parseRag(value) ?? String(value);
+    default:
+      return formatCell(value, { ...schema, unit: undefined });
+  }
+};
+
+export const CellEditor = ({ value, schema, onCommit, onCancel }: CellEditorProps) => {
+  const initial = initialValue(value, schema);
+  // Committing the starting value would rewrite the cell (e.g. an Excel date serial) for nothing
+  const commit = (next: string) => (next === initial ? onCancel() : onCommit(next));
+
+  if (schema.type === "enum" || schema.type === "boolean" || schema.type === "rag") {
+    const options = choices(schema);
+    return (
+      <Select
+        defaultOpen
+        value={options.includes(initial) ? initial : undefined}
+        onValueChange={(next) => commit(next === EMPTY ? "" : next)}
+        onOpenChange={(open) => !open && onCancel()}
+      >
+        <SelectTrigger className="h-8">
+          <SelectValue placeholder={initial || "No data"} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={EMPTY}>
+            <span className="text-muted-foreground italic">No data</span>
+          </SelectItem>
+          {options.map(option => (
+            <SelectItem key={option} value={option}>{option}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-1">
+      <Input
+        type={schema.type === "number" ? "number" : schema.type === "date" ? "date" : "text"}
+        step={schema.type === "number" ? "any" : undefined}
+        defaultValue={initial}
+        onBlur={(e) => commit(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit(e.currentTarget.value);
+          if (e.key === 'Escape') onCancel();
+        }}
+        className="h-8"
+        autoFocus
+      />
+      {schema.type === "number" && schema.unit && (
+        <span className="text-xs text-muted-foreground">{schema.unit}</span>
+      )}
+    </div>
+  );
+};
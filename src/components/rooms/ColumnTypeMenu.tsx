@@ -0,0 +1,71 @@
+import { ChevronDown } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { COLUMN_TYPES, isEmptyCell } from "@/lib/column-schema";
+import type { ColumnSchema, ColumnType } from "@/types/project";
+
+interface ColumnTypeMenuProps {
+  schema: ColumnSchema;
+  values: unknown[]; // the column's cells, to seed choices
+  onChange: (schema: ColumnSchema) => void;
+}
+
+const parseOptions = (text: string) => [...new Set(text.split(",").map(option => option.trim()).filter(Boolean))];
+
+export const ColumnTypeMenu = ({ schema, values, onChange }: ColumnTypeMenuProps) => {
+  const label = COLUMN_TYPES.find(t => t.value === schema.type)?.label ?? "Text";
+  const change = (patch: Partial<ColumnSchema>) => onChange({ ...schema, ...patch, overridden: true });
+
+  const changeType = (type: ColumnType) => {
+    if (type === schema.type) return;
+    if (type === "enum") {
+      const options = [...new Set(values.filter(value => !isEmptyCell(value)).map(value => String(value).trim()))].sort();
+      onChange({ type, options, overridden: true });
+    } else {
+      onChange({ type, overridden: true });
+    }
+  };
+
+  const editUnit = () => {
+    const unit = window.prompt("Unit shown after each value (leave empty for none)", schema.unit ?? "");
+    if (unit !== null) change({ unit: unit.trim() || undefined });
+  };
+
+  const editOptions = () => {
+    const options = window.prompt("Allowed values, separated by commas", (schema.options ?? []).join(", "));
+    if (options !== null) change({ options: parseOptions(options) });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        className="inline-flex items-center text-[10px] uppercase tracking-wide text-muted-foreground hover:text-foreground"
+        title={schema.overridden ? "Column type (set by hand)" : "Column type (detected on import)"}
+      >
+        {label}
+        {schema.type === "number" && schema.unit ? ` (${schema.unit})` : ""}
+        {schema.overridden ? " *" : ""}
+        <ChevronDown className="h-3 w-3 ml-0.5" />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuLabel>Column type</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={schema.type} onValueChange={(type) => changeType(type as ColumnType)}>
+          {COLUMN_TYPES.map(type => (
+            <DropdownMenuRadioItem key={type.value} value={type.value}>{type.label}</DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        {(schema.type === "number" || schema.type === "enum") && <DropdownMenuSeparator />}
+        {schema.type === "number" && <DropdownMenuItem onClick={editUnit}>Set unit...</DropdownMenuItem>}
+        {schema.type === "enum" && <DropdownMenuItem onClick={editOptions}>Edit choices...</DropdownMenuItem>}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,319 @@
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ALL_ROOMS, FILTER_OPERATORS, columnKey, findColumn, operatorNeedsValue } from "@/lib/room-filters";
+import type { FilterOperator, RoomFilter, RoomHeaders, RoomView } from "@/types/project";
+
+interface RoomFilterDialogProps {
+  open: boolean;
+  view: RoomView;
+  savedViews: RoomView[];
+  headers: RoomHeaders;
+  levels: string[];
+  onOpenChange: (open: boolean) => void;
+  onApply: (view: RoomView) => void;
+  onSaveView?: (view: RoomView) => void;
+  onDeleteView?: (viewId: string) => void;
+}
+
+// Filter targets are encoded as one select value: "column:<key>" or a room property
+const PROPERTY_TARGETS: { value: Exclude<RoomFilter["type"], "column">; label: string }[] = [
+  { value: "panoramas", label: "Has panoramas" },
+  { value: "linked", label: "Linked to floor plan" },
+  { value: "level", label: "Level" },
+];
+
+const filterTarget = (filter: RoomFilter) => (filter.type === "column" ? `column:${filter.column}` : filter.type);
+
+const filterForTarget = (target: string, levels: string[]): RoomFilter => {
+  if (target.startsWith("column:")) return { type: "column", column: target.slice(7), operator: "contains", value: "" };
+  if (target === "level") return { type: "level", level: levels[0] ?? "" };
+  return { type: target as "panoramas" | "linked", present: true };
+};
+
+export const RoomFilterDialog = ({
+  open,
+  view,
+  savedViews,
+  headers,
+  levels,
+  onOpenChange,
+  onApply,
+  onSaveView,
+  onDeleteView,
+}: RoomFilterDialogProps) => {
+  const [draft, setDraft] = useState<RoomView>(view);
+
+  useEffect(() => {
+    // Saving from "All rooms" starts a new view rather than renaming it
+    if (open) setDraft(view.id === ALL_ROOMS.id ? { ...view, id: "custom", name: "" } : view);
+  }, [open, view]);
+
+  const width = Math.max(headers.row1.length, headers.row2.length);
+  const columnLabel = (column: number) => String(headers.row1[column] || headers.row2[column] || `Column ${column + 1}`);
+  const columnItems = (prefix: string, selected: string[]) => [
+    ...Array.from({ length: width }, (_, column) => (
+      <SelectItem key={column} value={`${prefix}${columnKey(headers, column)}`}>{columnLabel(column)}</SelectItem>
+    )),
+    // Columns a saved view names that the current spreadsheet lacks stay visible until changed
+    ...[...new Set(selected.filter(key => findColumn(headers, key) < 0))].map(key => (
+      <SelectItem key={`missing-${key}`} value={`${prefix}${key}`} disabled>{key} (missing)</SelectItem>
+    )),
+  ];
+  const isSaved = savedViews.some(v => v.id === draft.id);
+
+  const updateFilter = (index: number, filter: RoomFilter) =>
+    setDraft(prev => ({ ...prev, filters: prev.filters.map((f, i) => (i === index ? filter : f)) }));
+
+  const moveSort = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= draft.sort.length) return;
+    setDraft(prev => {
+      const sort = [...prev.sort];
+      [sort[index], sort[target]] = [sort[target], sort[index]];
+      return { ...prev, sort };
+    });
+  };
+
+  const apply = (next: RoomView) => {
+    onApply(next);
+    onOpenChange(false);
+  };
+
+  const handleSave = () => {
+    const name = draft.name.trim();
+    if (!name || !onSaveView) return;
+    const saved = { ...draft, name, id: isSaved ? draft.id : `view-${Date.now()}` };
+    onSaveView(saved);
+    apply(saved);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Filter & Sort Rooms</DialogTitle>
+          <DialogDescription>
+            Saved views are shared with the viewer's room selector.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[28rem] pr-3">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2 text-sm">
+                <span>Show rooms matching</span>
+                <Select value={draft.match} onValueChange={(match) => setDraft(prev => ({ ...prev, match: match as RoomView["match"] }))}>
+                  <SelectTrigger className="h-8 w-20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">all</SelectItem>
+                    <SelectItem value="any">any</SelectItem>
+                  </SelectContent>
+                </Select>
+                <span>of these conditions</span>
+              </div>
+
+              {draft.filters.map((filter, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <Select value={filterTarget(filter)} onValueChange={(target) => updateFilter(index, filterForTarget(target, levels))}>
+                    <SelectTrigger className="h-8 w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROPERTY_TARGETS.map(target => (
+                        <SelectItem key={target.value} value={target.value}>{target.label}</SelectItem>
+                      ))}
+                      {columnItems("column:", filter.type === "column" ? [filter.column] : [])}
+                    </SelectContent>
+                  </Select>
+
+                  {filter.type === "column" && (
+                    <>
+                      <Select
+                        value={filter.operator}
+                        onValueChange={(operator) => updateFilter(index, { ...filter, operator: operator as FilterOperator })}
+                      >
+                        <SelectTrigger className="h-8 w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FILTER_OPERATORS.map(operator => (
+                            <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {operatorNeedsValue(filter.operator) && (
+                        <Input
+                          value={filter.value}
+                          onChange={(e) => updateFilter(index, { ...filter, value: e.target.value })}
+                          placeholder={filter.operator === "in" ? "A, B, C" : "Value"}
+                          className="h-8 flex-1"
+                        />
+                      )}
+                    </>
+                  )}
+
+                  {(filter.type === "panoramas" || filter.type === "linked") && (
+                    <Select
+                      value={filter.present ? "yes" : "no"}
+                      onValueChange={(present) => updateFilter(index, { ...filter, present: present === "yes" })}
+                    >
+                      <SelectTrigger className="h-8 w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="yes">Yes</SelectItem>
+                        <SelectItem value="no">No</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  {filter.type === "level" && (
+                    <Input
+                      value={filter.level}
+                      onChange={(e) => updateFilter(index, { ...filter, level: e.target.value })}
+                      placeholder="Level"
+                      className="h-8 flex-1"
+                      list="room-filter-levels"
+                    />
+                  )}
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 ml-auto"
+                    onClick={() => setDraft(prev => ({ ...prev, filters: prev.filters.filter((_, i) => i !== index) }))}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+              <datalist id="room-filter-levels">
+                {levels.map(level => (
+                  <option key={level} value={level} />
+                ))}
+              </datalist>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft(prev => ({ ...prev, filters: [...prev.filters, filterForTarget(`column:${columnKey(headers, 0)}`, levels)] }))}
+                disabled={width === 0}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add condition
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Sort by</Label>
+              {draft.sort.map((sort, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <span className="w-12 text-xs text-muted-foreground">{index === 0 ? 'First' : 'Then'}</span>
+                  <Select
+                    value={sort.column}
+                    onValueChange={(column) =>
+                      setDraft(prev => ({ ...prev, sort: prev.sort.map((s, i) => (i === index ? { ...s, column } : s)) }))
+                    }
+                  >
+                    <SelectTrigger className="h-8 w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {columnItems("", [sort.column])}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={sort.direction}
+                    onValueChange={(direction) =>
+                      setDraft(prev => ({
+                        ...prev,
+                        sort: prev.sort.map((s, i) => (i === index ? { ...s, direction: direction as "asc" | "desc" } : s)),
+                      }))
+                    }
+                  >
+                    <SelectTrigger className="h-8 w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="asc">Ascending</SelectItem>
+                      <SelectItem value="desc">Descending</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => moveSort(index, -1)} disabled={index === 0}>
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => moveSort(index, 1)} disabled={index === draft.sort.length - 1}>
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setDraft(prev => ({ ...prev, sort: prev.sort.filter((_, i) => i !== index) }))}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft(prev => ({ ...prev, sort: [...prev.sort, { column: columnKey(headers, 0), direction: "asc" }] }))}
+                disabled={width === 0}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add sort
+              </Button>
+            </div>
+          </div>
+        </ScrollArea>
+
+        {onSaveView && (
+          <div className="flex items-center space-x-2">
+            <Input
+              placeholder="View name"
+              value={draft.name}
+              onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              className="max-w-xs"
+            />
+            <Button variant="outline" size="sm" onClick={handleSave} disabled={!draft.name.trim()}>
+              {isSaved ? 'Update View' : 'Save View'}
+            </Button>
+            {isSaved && onDeleteView && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  if (!window.confirm(`Delete view "${draft.name}"?`)) return;
+                  onDeleteView(draft.id);
+                  apply({ ...draft, id: "custom" });
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" className="mr-auto" onClick={() => setDraft(prev => ({ ...prev, filters: [], sort: [] }))}>
+            Clear
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => apply(draft)}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
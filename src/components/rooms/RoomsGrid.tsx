@@ -0,0 +1,340 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { AlertTriangle, ExternalLink } from "lucide-react";
+import { toast } from "sonner";
+import { useVirtualGrid } from "@/hooks/use-virtual-grid";
+import { columnSchema, formatCell, isEmptyCell, validateCell } from "@/lib/column-schema";
+import { categoryColor } from "@/lib/column-categories";
+import { inRange, parseTsv, rangeBetween, toTsv, type CellPosition } from "@/lib/cell-ranges";
+import { CellEditor } from "@/components/rooms/CellEditor";
+import { ColumnTypeMenu } from "@/components/rooms/ColumnTypeMenu";
+import type { ColumnCategory, ColumnSchema, Room as ProjectRoom, RoomHeaders } from "@/types/project";
+
+type Room = Pick<ProjectRoom, "id" | "data">;
+
+export interface GridColumn {
+  column: number; // index into the room data
+  category: ColumnCategory;
+}
+
+interface RoomsGridProps {
+  rooms: Room[];
+  headers: RoomHeaders;
+  frozen: [number, number]; // the ID and name columns, kept at the left
+  columns: GridColumn[]; // the scrolling columns
+  onCellsChange: (updates: Record<string, Room["data"]>) => void;
+  onRoomSelect: (roomId: string) => void;
+  onColumnSchemaChange?: (column: number, schema: ColumnSchema) => void;
+}
+
+const ROW_HEIGHT = 36;
+const HEADER_HEIGHT = 76;
+const COLUMN_WIDTH = 160;
+const FROZEN_WIDTHS = [128, 192];
+const FROZEN_WIDTH = FROZEN_WIDTHS[0] + FROZEN_WIDTHS[1];
+
+// Grid columns 0 and 1 are the frozen ID and name; grid column 2 is columns[0]
+const FROZEN_COUNT = 2;
+
+const plainSchema = (schema: ColumnSchema): ColumnSchema => ({ ...schema, unit: undefined });
+
+export const RoomsGrid = ({ rooms, headers, frozen, columns, onCellsChange, onRoomSelect, onColumnSchemaChange }: RoomsGridProps) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [anchor, setAnchor] = useState<CellPosition>({ row: 0, column: FROZEN_COUNT });
+  const [focus, setFocus] = useState<CellPosition>({ row: 0, column: FROZEN_COUNT });
+  const [editing, setEditing] = useState<CellPosition | null>(null);
+  const dragging = useRef(false);
+
+  const columnCount = FROZEN_COUNT + columns.length;
+  const { rowStart, rowEnd, columnStart, columnEnd, scrollToCell } = useVirtualGrid(scrollRef, {
+    rowCount: rooms.length,
+    rowHeight: ROW_HEIGHT,
+    columnCount: columns.length,
+    columnWidth: COLUMN_WIDTH,
+    headerHeight: HEADER_HEIGHT,
+    frozenWidth: FROZEN_WIDTH,
+  });
+
+  const range = rangeBetween(anchor, focus);
+  const dataColumn = (gridColumn: number) => (gridColumn < FROZEN_COUNT ? frozen[gridColumn] : columns[gridColumn - FROZEN_COUNT]?.column);
+  // A frozen column is -1 when the spreadsheet has no name column
+  const editable = (gridColumn: number) => (dataColumn(gridColumn) ?? -1) >= 0;
+
+  // Keep the selection inside the grid when filters shrink it
+  useEffect(() => {
+    const clamp = (cell: CellPosition) => ({
+      row: Math.min(cell.row, Math.max(0, rooms.length - 1)),
+      column: Math.min(cell.column, Math.max(0, columnCount - 1)),
+    });
+    setAnchor(clamp);
+    setFocus(clamp);
+    setEditing(null);
+  }, [rooms.length, columnCount]);
+
+  useEffect(() => {
+    const stopDragging = () => { dragging.current = false; };
+    window.addEventListener("mouseup", stopDragging);
+    return () => window.removeEventListener("mouseup", stopDragging);
+  }, []);
+
+  const select = (cell: CellPosition, extend: boolean) => {
+    const next = {
+      row: Math.max(0, Math.min(rooms.length - 1, cell.row)),
+      column: Math.max(0, Math.min(columnCount - 1, cell.column)),
+    };
+    if (!extend) setAnchor(next);
+    setFocus(next);
+    scrollToCell(next.row, next.column >= FROZEN_COUNT ? next.column - FROZEN_COUNT : -1);
+  };
+
+  const cellAt = (target: EventTarget): CellPosition | null => {
+    const element = (target as HTMLElement).closest<HTMLElement>("[data-row]");
+    return element ? { row: Number(element.dataset.row), column: Number(element.dataset.column) } : null;
+  };
+
+  const startEditing = (cell: CellPosition) => {
+    if (rooms[cell.row] && editable(cell.column)) setEditing(cell);
+  };
+
+  const finishEditing = () => {
+    setEditing(null);
+    scrollRef.current?.focus();
+  };
+
+  // Writes cell values into copies of the rooms' data; unchanged cells are skipped
+  const writeCells = (cells: { row: number; column: number; value: string }[]) => {
+    const updates: Record<string, Room["data"]> = {};
+    let count = 0;
+    cells.forEach(({ row, column, value }) => {
+      const room = rooms[row];
+      const index = dataColumn(column);
+      if (!room || !editable(column)) return;
+      const data = updates[room.id] ?? [...room.data];
+      if (String(data[index] ?? '') === value) return;
+      data[index] = value;
+      updates[room.id] = data;
+      count++;
+    });
+    if (count > 0) onCellsChange(updates);
+    return count;
+  };
+
+  const handleCommit = (cell: CellPosition, value: string) => {
+    writeCells([{ ...cell, value }]);
+    finishEditing();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keys typed into the cell editor are its own
+    if (e.target !== e.currentTarget || rooms.length === 0) return;
+    const moves: Record<string, [number, number]> = {
+      ArrowUp: [-1, 0],
+      ArrowDown: [1, 0],
+      ArrowLeft: [0, -1],
+      ArrowRight: [0, 1],
+    };
+    if (moves[e.key]) {
+      e.preventDefault();
+      const [dRow, dColumn] = moves[e.key];
+      const page = e.ctrlKey || e.metaKey;
+      select({
+        row: page ? (dRow < 0 ? 0 : dRow > 0 ? rooms.length - 1 : focus.row) : focus.row + dRow,
+        column: page ? (dColumn < 0 ? 0 : dColumn > 0 ? columnCount - 1 : focus.column) : focus.column + dColumn,
+      }, e.shiftKey);
+    } else if (e.key === "Tab") {
+      e.preventDefault();
+      // Tab runs along the row and wraps onto the next one
+      const index = focus.row * columnCount + focus.column + (e.shiftKey ? -1 : 1);
+      const last = rooms.length * columnCount - 1;
+      const clamped = Math.max(0, Math.min(last, index));
+      select({ row: Math.floor(clamped / columnCount), column: clamped % columnCount }, false);
+    } else if (e.key === "Enter" || e.key === "F2") {
+      e.preventDefault();
+      startEditing(focus);
+    } else if (e.key === "Delete" || e.key === "Backspace") {
+      e.preventDefault();
+      const cells = [];
+      for (let row = range.top; row <= range.bottom; row++) {
+        for (let column = range.left; column <= range.right; column++) cells.push({ row, column, value: "" });
+      }
+      writeCells(cells);
+    } else if (e.key === "Escape") {
+      setAnchor(focus);
+    }
+  };
+
+  const handleCopy = (e: React.ClipboardEvent) => {
+    if (e.target !== e.currentTarget || rooms.length === 0) return;
+    e.preventDefault();
+    const rows: string[][] = [];
+    for (let row = range.top; row <= range.bottom; row++) {
+      const line: string[] = [];
+      for (let column = range.left; column <= range.right; column++) {
+        const index = dataColumn(column);
+        line.push(index === undefined ? "" : formatCell(rooms[row]?.data[index], plainSchema(columnSchema(headers, index))));
+      }
+      rows.push(line);
+    }
+    e.clipboardData.setData("text/plain", toTsv(rows));
+    const cells = (range.bottom - range.top + 1) * (range.right - range.left + 1);
+    toast.success(`Copied ${cells} cell${cells !== 1 ? 's' : ''}`);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (e.target !== e.currentTarget || rooms.length === 0) return;
+    e.preventDefault();
+    const values = parseTsv(e.clipboardData.getData("text/plain"));
+    if (values.length === 0) return;
+    const cells = [];
+    if (values.length === 1 && values[0].length === 1) {
+      // One value fills the whole selection
+      for (let row = range.top; row <= range.bottom; row++) {
+        for (let column = range.left; column <= range.right; column++) cells.push({ row, column, value: values[0][0] });
+      }
+    } else {
+      values.forEach((line, dRow) => line.forEach((value, dColumn) => {
+        cells.push({ row: range.top + dRow, column: range.left + dColumn, value });
+      }));
+    }
+    const count = writeCells(cells);
+    if (count > 0) toast.success(`Pasted ${count} cell${count !== 1 ? 's' : ''}`);
+  };
+
+  const renderCell = (room: Room, row: number, column: number) => {
+    const index = dataColumn(column);
+    const isFrozen = column < FROZEN_COUNT;
+    const schema = columnSchema(headers, index);
+    const value = room.data[index];
+    const error = validateCell(value, schema);
+    const selected = inRange(range, row, column);
+    const active = focus.row === row && focus.column === column;
+    const isEditing = editing?.row === row && editing.column === column;
+    const width = isFrozen ? FROZEN_WIDTHS[column] : COLUMN_WIDTH;
+
+    return (
+      <div
+        key={column}
+        data-row={row}
+        data-column={column}
+        title={error ?? undefined}
+        style={{ width, minWidth: width, ...(isFrozen && { left: column === 0 ? 0 : FROZEN_WIDTHS[0] }) }}
+        className={[
+          'h-full px-2 flex items-center text-sm border-b border-r overflow-hidden select-none',
+          isFrozen ? `sticky z-10 ${column === 0 ? 'font-mono' : 'font-medium group'}` : '',
+          // Frozen cells need an opaque background to cover the columns scrolling beneath them
+          isFrozen ? (selected ? 'bg-accent' : 'bg-card') : selected ? 'bg-primary/10' : error ? 'bg-destructive/10' : '',
+          active ? 'ring-2 ring-inset ring-primary' : '',
+        ].join(' ')}
+      >
+        {isEditing ? (
+          <CellEditor value={value} schema={schema} onCommit={(next) => handleCommit({ row, column }, next)} onCancel={finishEditing} />
+        ) : (
+          <>
+            {error && <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0 text-destructive" />}
+            <span className={`truncate ${isEmptyCell(value) ? 'text-muted-foreground italic' : error ? 'text-destructive' : ''}`}>
+              {isEmptyCell(value) ? (isFrozen ? '' : 'No data') : formatCell(value, schema)}
+            </span>
+            {column === 1 && (
+              <button
+                className="ml-auto pl-1 opacity-0 group-hover:opacity-60 hover:!opacity-100"
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => onRoomSelect(room.id)}
+                title="Open in viewer"
+              >
+                <ExternalLink className="h-3 w-3" />
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const visibleColumns = useMemo(
+    () => Array.from({ length: Math.max(0, columnEnd - columnStart) }, (_, i) => FROZEN_COUNT + columnStart + i),
+    [columnStart, columnEnd]
+  );
+  const spacer = <div style={{ width: columnStart * COLUMN_WIDTH, minWidth: columnStart * COLUMN_WIDTH }} />;
+  const frozenHeader = (column: number, label: string) => (
+    <div
+      style={{ width: FROZEN_WIDTHS[column], minWidth: FROZEN_WIDTHS[column], left: column === 0 ? 0 : FROZEN_WIDTHS[0] }}
+      className="sticky z-30 bg-card border-b border-r px-2 flex items-end pb-2 font-medium text-sm"
+    >
+      {label}
+    </div>
+  );
+
+  return (
+    <div
+      ref={scrollRef}
+      tabIndex={0}
+      className="relative h-[70vh] overflow-auto border rounded-md outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      onKeyDown={handleKeyDown}
+      onCopy={handleCopy}
+      onPaste={handlePaste}
+    >
+      <div style={{ width: FROZEN_WIDTH + columns.length * COLUMN_WIDTH, minWidth: '100%' }}>
+        <div className="sticky top-0 z-20 flex bg-card" style={{ height: HEADER_HEIGHT }}>
+          {frozenHeader(0, 'Room ID')}
+          {frozenHeader(1, 'Room Name')}
+          {spacer}
+          {visibleColumns.map(column => {
+            const { column: index, category } = columns[column - FROZEN_COUNT];
+            const startsCategory = column === FROZEN_COUNT || columns[column - FROZEN_COUNT - 1].category.id !== category.id;
+            return (
+              <div key={column} style={{ width: COLUMN_WIDTH, minWidth: COLUMN_WIDTH }} className="border-b border-r flex flex-col">
+                <div className={`h-1 ${categoryColor(category.color).bg}`} />
+                <div className="px-2 py-1 space-y-0.5 overflow-hidden">
+                  <div className={`text-[10px] h-3 truncate ${categoryColor(category.color).text}`}>
+                    {startsCategory || column === FROZEN_COUNT + columnStart ? category.name : ''}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate" title={headers.row1[index]}>{headers.row1[index]}</div>
+                  <div className="text-sm font-mono truncate">{headers.row2[index]}</div>
+                  {onColumnSchemaChange && (
+                    <ColumnTypeMenu
+                      schema={columnSchema(headers, index)}
+                      values={rooms.map(room => room.data[index])}
+                      onChange={(schema) => onColumnSchemaChange(index, schema)}
+                    />
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div
+          className="relative"
+          style={{ height: rooms.length * ROW_HEIGHT }}
+          onMouseDown={(e) => {
+            const cell = cellAt(e.target);
+            if (!cell || editing) return;
+            e.preventDefault();
+            scrollRef.current?.focus();
+            select(cell, e.shiftKey);
+            dragging.current = true;
+          }}
+          onMouseOver={(e) => {
+            const cell = cellAt(e.target);
+            if (dragging.current && cell && e.buttons === 1) setFocus(cell);
+          }}
+          onDoubleClick={(e) => {
+            const cell = cellAt(e.target);
+            if (cell) startEditing(cell);
+          }}
+        >
+          {rooms.slice(rowStart, rowEnd).map((room, i) => {
+            const row = rowStart + i;
+            return (
+              <div key={room.id} className="absolute left-0 flex" style={{ top: row * ROW_HEIGHT, height: ROW_HEIGHT }}>
+                {renderCell(room, row, 0)}
+                {renderCell(room, row, 1)}
+                {spacer}
+                {visibleColumns.map(column => renderCell(room, row, column))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
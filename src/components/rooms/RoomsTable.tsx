@@ -1,10 +1,29 @@
 import { useState, useMemo } from "react";
-import { Search, Filter, Download, Edit3, ChevronDown, ChevronRight } from "lucide-react";
+import { Search, Filter, Download, Settings2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "sonner";
+import { buildExportRows, exportRoomsFile, type ExportFormat } from "@/lib/room-export";
+import { createBuilding } from "@/lib/building";
+import { resolveRoomFields } from "@/lib/room-fields";
+import { DEFAULT_COLUMN_CATEGORIES, categorizeColumns, categoryColor } from "@/lib/column-categories";
+import { validateCell } from "@/lib/column-schema";
+import { ALL_ROOMS, applyRoomView, createFilterContext, describeFilter, staleColumns } from "@/lib/room-filters";
+import { ColumnCategoriesDialog } from "@/components/settings/ColumnCategoriesDialog";
+import { RoomsGrid, type GridColumn } from "@/components/rooms/RoomsGrid";
+import { RoomFilterDialog } from "@/components/rooms/RoomFilterDialog";
+import type { Building, ColumnCategory, ColumnSchema, PanoramaItem, RoomHeaders, RoomView } from "@/types/project";
 
 interface Room {
   id: string;
@@ -13,80 +32,97 @@ interface Room {
 
 interface RoomsTableProps {
   rooms: Room[];
-  headers: { row1: string[]; row2: string[] };
+  headers: RoomHeaders;
   onRoomUpdate: (roomId: string, data: any[]) => void;
+  onRoomsUpdate?: (updates: Record<string, Room["data"]>) => void; // several rooms as one change
   onRoomSelect: (roomId: string) => void;
+  building?: Building;
+  panoramas?: PanoramaItem[];
+  categories?: ColumnCategory[];
+  onCategoriesChange?: (categories: ColumnCategory[]) => void;
+  onColumnSchemaChange?: (column: number, schema: ColumnSchema) => void;
+  views?: RoomView[];
+  onViewsChange?: (views: RoomView[]) => void;
 }
 
-const CATEGORIES = {
-  basic: { name: "Basic Info", color: "bg-primary" },
-  fabric: { name: "Fabric & Finishes", color: "bg-vue-green" },
-  fittings: { name: "Fittings & Equipment", color: "bg-sync-blue" },
-  services: { name: "Services (M&E)", color: "bg-sync-blue" },
-  protection: { name: "Protection & Alarms", color: "bg-destructive" },
-  misc: { name: "Miscellaneous", color: "bg-purple" },
-};
-
-export const RoomsTable = ({ rooms, headers, onRoomUpdate, onRoomSelect }: RoomsTableProps) => {
+export const RoomsTable = ({ rooms, headers, onRoomUpdate, onRoomsUpdate, onRoomSelect, building = createBuilding(), panoramas = [], categories = DEFAULT_COLUMN_CATEGORIES, onCategoriesChange, onColumnSchemaChange, views = [], onViewsChange }: RoomsTableProps) => {
   const [searchTerm, setSearchTerm] = useState("");
-  const [expandedCategories, setExpandedCategories] = useState<Record<string, boolean>>({
-    basic: true,
-  });
-  const [editingCell, setEditingCell] = useState<{ roomId: string; colIndex: number } | null>(null);
+  const [hiddenCategories, setHiddenCategories] = useState<Record<string, boolean>>({});
+  const [showCategorySettings, setShowCategorySettings] = useState(false);
+  const [exportLinks, setExportLinks] = useState(false);
+  const [activeView, setActiveView] = useState<RoomView>(ALL_ROOMS);
+  const [showFilters, setShowFilters] = useState(false);
 
-  const categorizeColumns = useMemo(() => {
-    const categorized: Record<string, number[]> = {
-      basic: [],
-      fabric: [],
-      fittings: [],
-      services: [],
-      protection: [],
-      misc: [],
-    };
+  const fields = useMemo(() => resolveRoomFields(headers), [headers]);
+  const frozenColumns: [number, number] = [fields.id, fields.name];
 
-    headers.row2.forEach((code, index) => {
-      const codeUpper = code?.toString().toUpperCase() || '';
-      
-      if (codeUpper.includes('ROOM') || codeUpper.includes('REF') || codeUpper.includes('DATE') || codeUpper.includes('Q0') && !codeUpper.includes('BU_') && !codeUpper.includes('SE_')) {
-        categorized.basic.push(index);
-      } else if (codeUpper.includes('BU_')) {
-        categorized.fabric.push(index);
-      } else if (codeUpper.includes('FE_') || codeUpper.includes('ASSET')) {
-        categorized.fittings.push(index);
-      } else if (codeUpper.includes('SE_') && (codeUpper.includes('WA') || codeUpper.includes('GS') || codeUpper.includes('GP') || codeUpper.includes('RT') || codeUpper.includes('SP') || codeUpper.includes('SN') || codeUpper.includes('ST') || codeUpper.includes('VC') || codeUpper.includes('LS') || codeUpper.includes('TP') || codeUpper.includes('AV') || codeUpper.includes('CO') || codeUpper.includes('P3') || codeUpper.includes('PH') || codeUpper.includes('SL') || codeUpper.includes('EL'))) {
-        categorized.services.push(index);
-      } else if (codeUpper.includes('SE_') && (codeUpper.includes('FP') || codeUpper.includes('FA') || codeUpper.includes('SH') || codeUpper.includes('SI') || codeUpper.includes('AS') || codeUpper.includes('ES') || codeUpper.includes('CP') || codeUpper.includes('DA'))) {
-        categorized.protection.push(index);
-      } else {
-        categorized.misc.push(index);
-      }
-    });
+  const categorized = useMemo(
+    () => categorizeColumns(headers, categories, [fields.id, fields.name, fields.level, fields.area]),
+    [headers, categories, fields]
+  );
 
-    return categorized;
-  }, [headers.row2]);
+  // ID and name are frozen at the left, so they are left out of the scrolling columns
+  const gridColumns = useMemo<GridColumn[]>(
+    () => categorized
+      .filter(({ category }) => !hiddenCategories[category.id])
+      .flatMap(({ category, columns }) =>
+        columns.filter(column => column !== fields.id && column !== fields.name).map(column => ({ column, category }))
+      ),
+    [categorized, hiddenCategories, fields]
+  );
 
   const filteredRooms = useMemo(() => {
-    if (!searchTerm) return rooms;
-    
-    return rooms.filter(room => {
-      const roomName = room.data[1]?.toString().toLowerCase() || '';
-      const roomId = room.data[0]?.toString().toLowerCase() || '';
-      return roomName.includes(searchTerm.toLowerCase()) || roomId.includes(searchTerm.toLowerCase());
-    });
-  }, [rooms, searchTerm]);
+    const term = searchTerm.trim().toLowerCase();
+    const searched = term
+      ? rooms.filter(room => room.data.some(cell => String(cell ?? '').toLowerCase().includes(term)))
+      : rooms;
+    return applyRoomView(searched, activeView, createFilterContext({ headers, building, panoramas }));
+  }, [rooms, headers, building, panoramas, searchTerm, activeView]);
+
+  const levels = useMemo(() => building.floors.map(floor => floor.level), [building]);
+  const savedView = views.find(view => view.id === activeView.id);
+  // A saved view applied with unsaved edits
+  const viewEdited = !!savedView && JSON.stringify(savedView) !== JSON.stringify(activeView);
+  // Columns the view uses that a re-import removed; their conditions are skipped
+  const missingColumns = useMemo(() => staleColumns(activeView, headers), [activeView, headers]);
+
+  const handleSaveView = (view: RoomView) => {
+    onViewsChange?.(views.some(v => v.id === view.id) ? views.map(v => (v.id === view.id ? view : v)) : [...views, view]);
+    toast.success(`Saved view "${view.name}"`);
+  };
+
+  const invalidCount = useMemo(() => {
+    // Text columns accept anything, so only typed columns are checked
+    const typed = (headers.schema ?? []).flatMap((schema, column) => (schema && schema.type !== "text" ? [{ schema, column }] : []));
+    return rooms.reduce((count, room) => count + typed.filter(({ schema, column }) => validateCell(room.data[column], schema)).length, 0);
+  }, [rooms, headers]);
+
+  const handleCellsChange = (updates: Record<string, Room["data"]>) => {
+    const ids = Object.keys(updates);
+    if (ids.length === 1) onRoomUpdate(ids[0], updates[ids[0]]);
+    else if (onRoomsUpdate) onRoomsUpdate(updates);
+    else ids.forEach(id => onRoomUpdate(id, updates[id]));
+  };
 
-  const handleCellEdit = (roomId: string, colIndex: number, value: string) => {
-    const room = rooms.find(r => r.id === roomId);
-    if (room) {
-      const newData = [...room.data];
-      newData[colIndex] = value;
-      onRoomUpdate(roomId, newData);
+  // Export every room in the import layout, whatever the search filter shows
+  const handleExport = (format: ExportFormat) => {
+    try {
+      const rows = buildExportRows({ rooms, headers, building, panoramas }, { includeLinks: exportLinks });
+      const url = URL.createObjectURL(exportRoomsFile(rows, format));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `rooms-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+      toast.success(`Exported ${rooms.length} room${rooms.length !== 1 ? 's' : ''} to ${format.toUpperCase()}`);
+    } catch (e) {
+      console.error('Failed to export rooms', e);
+      toast.error("Failed to export rooms");
     }
-    setEditingCell(null);
   };
 
   const toggleCategory = (category: string) => {
-    setExpandedCategories(prev => ({
+    setHiddenCategories(prev => ({
       ...prev,
       [category]: !prev[category],
     }));
@@ -99,18 +135,64 @@ export const RoomsTable = ({ rooms, headers, onRoomUpdate, onRoomSelect }: Rooms
           <h2 className="text-3xl font-bold">Rooms Table</h2>
           <p className="text-muted-foreground">
             {filteredRooms.length} rooms • Organized by categories
+            {invalidCount > 0 && (
+              <span className="text-destructive"> • {invalidCount} invalid cell{invalidCount !== 1 ? 's' : ''}</span>
+            )}
           </p>
         </div>
         
         <div className="flex items-center space-x-2">
-          <Button variant="outline" size="sm">
-            <Download className="mr-2 h-4 w-4" />
-            Export CSV
-          </Button>
-          <Button variant="outline" size="sm">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={rooms.length === 0}>
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport("csv")}>Export CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("xlsx")}>Export XLSX</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuCheckboxItem
+                checked={exportLinks}
+                onCheckedChange={(checked) => setExportLinks(checked === true)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                Include plan room, drawn area and panorama count
+              </DropdownMenuCheckboxItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Select
+            value={savedView || activeView.id === ALL_ROOMS.id ? activeView.id : "custom"}
+            onValueChange={(id) => setActiveView(views.find(view => view.id === id) ?? ALL_ROOMS)}
+          >
+            <SelectTrigger className="h-9 w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ROOMS.id}>{ALL_ROOMS.name}</SelectItem>
+              {views.map(view => (
+                <SelectItem key={view.id} value={view.id}>
+                  {view.name}{view.id === activeView.id && viewEdited ? ' (edited)' : ''}
+                  {staleColumns(view, headers).length > 0 ? ' (stale)' : ''}
+                </SelectItem>
+              ))}
+              {!savedView && activeView.id !== ALL_ROOMS.id && <SelectItem value="custom">Custom filter</SelectItem>}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => setShowFilters(true)}>
             <Filter className="mr-2 h-4 w-4" />
             Filter
+            {activeView.filters.length + activeView.sort.length > 0 && (
+              <Badge variant="secondary" className="ml-2">{activeView.filters.length + activeView.sort.length}</Badge>
+            )}
           </Button>
+          {onCategoriesChange && (
+            <Button variant="outline" size="sm" onClick={() => setShowCategorySettings(true)}>
+              <Settings2 className="mr-2 h-4 w-4" />
+              Categories
+            </Button>
+          )}
         </div>
       </div>
 
@@ -126,12 +208,32 @@ export const RoomsTable = ({ rooms, headers, onRoomUpdate, onRoomSelect }: Rooms
                 className="pl-10"
               />
             </div>
-            <div className="flex space-x-2">
-              {Object.entries(CATEGORIES).map(([key, category]) => (
+            {activeView.filters.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {activeView.filters.map((filter, index) => (
+                  <Badge key={index} variant="outline" className="text-xs">
+                    {index > 0 && <span className="text-muted-foreground mr-1">{activeView.match === "all" ? 'and' : 'or'}</span>}
+                    {describeFilter(filter, headers)}
+                  </Badge>
+                ))}
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setActiveView(ALL_ROOMS)}>
+                  Clear
+                </Button>
+              </div>
+            )}
+            {missingColumns.length > 0 && (
+              <Badge variant="destructive" className="text-xs" title="Edit the view to pick columns that exist">
+                Missing column{missingColumns.length !== 1 ? 's' : ''} {missingColumns.join(', ')} ignored
+              </Badge>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {categorized.filter(group => group.columns.length > 0).map(({ category }) => (
                 <Badge
-                  key={key}
+                  key={category.id}
                   variant="secondary"
-                  className={`${category.color} text-white`}
+                  className={`cursor-pointer ${hiddenCategories[category.id] ? 'line-through opacity-50' : `${categoryColor(category.color).bg} text-white`}`}
+                  onClick={() => toggleCategory(category.id)}
+                  title={hiddenCategories[category.id] ? 'Show these columns' : 'Hide these columns'}
                 >
                   {category.name}
                 </Badge>
@@ -140,120 +242,42 @@ export const RoomsTable = ({ rooms, headers, onRoomUpdate, onRoomSelect }: Rooms
           </div>
         </CardHeader>
         <CardContent>
-          <div className="space-y-4">
-            {Object.entries(categorizeColumns).map(([categoryKey, columnIndices]) => {
-              if (columnIndices.length === 0) return null;
-              
-              const category = CATEGORIES[categoryKey as keyof typeof CATEGORIES];
-              const isExpanded = expandedCategories[categoryKey];
-              
-              return (
-                <Collapsible
-                  key={categoryKey}
-                  open={isExpanded}
-                  onOpenChange={() => toggleCategory(categoryKey)}
-                >
-                  <CollapsibleTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      className="w-full justify-between p-0 h-auto font-medium"
-                    >
-                      <div className="flex items-center space-x-2">
-                        <div className={`w-3 h-3 rounded ${category.color}`}></div>
-                        <span>{category.name}</span>
-                        <Badge variant="secondary">{columnIndices.length} columns</Badge>
-                      </div>
-                      {isExpanded ? (
-                        <ChevronDown className="h-4 w-4" />
-                      ) : (
-                        <ChevronRight className="h-4 w-4" />
-                      )}
-                    </Button>
-                  </CollapsibleTrigger>
-                  
-                  <CollapsibleContent className="space-y-2 mt-4">
-                    <div className="overflow-x-auto">
-                      <table className="w-full border-collapse">
-                        <thead>
-                          <tr className="border-b">
-                            <th className="sticky left-0 bg-card text-left p-2 font-medium min-w-32">
-                              Room ID
-                            </th>
-                            <th className="sticky left-32 bg-card text-left p-2 font-medium min-w-48">
-                              Room Name
-                            </th>
-                            {columnIndices.map(colIndex => (
-                              <th key={colIndex} className="text-left p-2 font-medium min-w-32">
-                                <div className="space-y-1">
-                                  <div className="text-xs text-muted-foreground">
-                                    {headers.row1[colIndex]}
-                                  </div>
-                                  <div className="text-sm font-mono">
-                                    {headers.row2[colIndex]}
-                                  </div>
-                                </div>
-                              </th>
-                            ))}
-                          </tr>
-                        </thead>
-                        <tbody>
-                          {filteredRooms.map(room => (
-                            <tr 
-                              key={room.id} 
-                              className="border-b hover:bg-muted/5 cursor-pointer transition-smooth"
-                              onClick={() => onRoomSelect(room.id)}
-                            >
-                              <td className="sticky left-0 bg-card p-2 font-mono text-sm">
-                                {room.data[0]}
-                              </td>
-                              <td className="sticky left-32 bg-card p-2 font-medium">
-                                {room.data[1]}
-                              </td>
-                              {columnIndices.map(colIndex => (
-                                <td key={colIndex} className="p-2 text-sm">
-                                  {editingCell?.roomId === room.id && editingCell?.colIndex === colIndex ? (
-                                    <Input
-                                      defaultValue={room.data[colIndex] || ''}
-                                      onBlur={(e) => handleCellEdit(room.id, colIndex, e.target.value)}
-                                      onKeyDown={(e) => {
-                                        if (e.key === 'Enter') {
-                                          handleCellEdit(room.id, colIndex, e.currentTarget.value);
-                                        }
-                                        if (e.key === 'Escape') {
-                                          setEditingCell(null);
-                                        }
-                                      }}
-                                      className="h-8"
-                                      autoFocus
-                                    />
-                                  ) : (
-                                    <div 
-                                      className="min-h-6 flex items-center group relative"
-                                      onClick={(e) => {
-                                        e.stopPropagation();
-                                        setEditingCell({ roomId: room.id, colIndex });
-                                      }}
-                                    >
-                                      <span className={room.data[colIndex] ? '' : 'text-muted-foreground italic'}>
-                                        {room.data[colIndex] || 'No data'}
-                                      </span>
-                                      <Edit3 className="h-3 w-3 ml-2 opacity-0 group-hover:opacity-50 transition-smooth" />
-                                    </div>
-                                  )}
-                                </td>
-                              ))}
-                            </tr>
-                          ))}
-                        </tbody>
-                      </table>
-                    </div>
-                  </CollapsibleContent>
-                </Collapsible>
-              );
-            })}
-          </div>
+          <RoomsGrid
+            rooms={filteredRooms}
+            headers={headers}
+            frozen={frozenColumns}
+            columns={gridColumns}
+            onCellsChange={handleCellsChange}
+            onRoomSelect={onRoomSelect}
+            onColumnSchemaChange={onColumnSchemaChange}
+          />
+          <p className="text-xs text-muted-foreground mt-2">
+            Arrows or Tab to move, Shift to select a range, Enter to edit, Ctrl+C / Ctrl+V to copy and paste cells.
+          </p>
         </CardContent>
       </Card>
+
+      <RoomFilterDialog
+        open={showFilters}
+        view={activeView}
+        savedViews={views}
+        headers={headers}
+        levels={levels}
+        onOpenChange={setShowFilters}
+        onApply={setActiveView}
+        onSaveView={onViewsChange ? handleSaveView : undefined}
+        onDeleteView={onViewsChange ? (id) => onViewsChange(views.filter(view => view.id !== id)) : undefined}
+      />
+
+      {onCategoriesChange && (
+        <ColumnCategoriesDialog
+          open={showCategorySettings}
+          categories={categories}
+          headers={headers}
+          onOpenChange={setShowCategorySettings}
+          onSave={onCategoriesChange}
+        />
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,253 @@
+import { useEffect, useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, Plus, RotateCcw, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CATEGORY_COLORS,
+  DEFAULT_COLUMN_CATEGORIES,
+  categorizeColumns,
+  categoryColor,
+  regexError,
+} from "@/lib/column-categories";
+import { resolveRoomFields } from "@/lib/room-fields";
+import { CATEGORY_ICONS, categoryIcon } from "@/components/settings/category-icons";
+import type { CategoryMatcher, ColumnCategory, RoomHeaders } from "@/types/project";
+
+interface ColumnCategoriesDialogProps {
+  open: boolean;
+  categories: ColumnCategory[];
+  headers: RoomHeaders;
+  onOpenChange: (open: boolean) => void;
+  onSave: (categories: ColumnCategory[]) => void;
+}
+
+const MATCHER_TYPES: { value: CategoryMatcher["type"]; label: string }[] = [
+  { value: "prefix", label: "Starts with" },
+  { value: "contains", label: "Contains" },
+  { value: "regex", label: "Regex" },
+];
+
+export const ColumnCategoriesDialog = ({ open, categories, headers, onOpenChange, onSave }: ColumnCategoriesDialogProps) => {
+  // Edits stay local until saved, so a whole rule change is one undo step
+  const [draft, setDraft] = useState<ColumnCategory[]>(categories);
+
+  useEffect(() => {
+    if (open) setDraft(categories);
+  }, [open, categories]);
+
+  // Pinned like the rooms table pins them, so the preview groups columns the same way
+  const preview = useMemo(() => {
+    const fields = resolveRoomFields(headers);
+    return categorizeColumns(headers, draft, [fields.id, fields.name, fields.level, fields.area]);
+  }, [headers, draft]);
+  const hasInvalidRule = draft.some(c => c.matchers.some(m => m.type === "regex" && regexError(m.pattern)));
+
+  const updateCategory = (id: string, patch: Partial<ColumnCategory>) => {
+    setDraft(prev => prev.map(c => (c.id === id ? { ...c, ...patch } : c)));
+  };
+
+  const updateMatcher = (category: ColumnCategory, index: number, patch: Partial<CategoryMatcher>) => {
+    updateCategory(category.id, { matchers: category.matchers.map((m, i) => (i === index ? { ...m, ...patch } : m)) });
+  };
+
+  const moveCategory = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= draft.length) return;
+    setDraft(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addCategory = () => {
+    setDraft(prev => [
+      ...prev,
+      { id: `category-${Date.now()}`, name: "New Category", color: "slate", icon: "tag", matchers: [{ type: "prefix", pattern: "" }] },
+    ]);
+  };
+
+  const columnLabel = (column: number) => String(headers.row2[column] || headers.row1[column] || `Column ${column + 1}`);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Column Categories</DialogTitle>
+          <DialogDescription>
+            Rules are tried top to bottom; a column joins the first category with a matching rule. A category with no rules collects every column nothing else matched.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-5 gap-4">
+          <ScrollArea className="col-span-3 h-[28rem] pr-3">
+            <div className="space-y-3">
+              {draft.map((category, index) => {
+                const Icon = categoryIcon(category.icon);
+                return (
+                  <div key={category.id} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <Icon className={`h-4 w-4 flex-shrink-0 ${categoryColor(category.color).text}`} />
+                      <Input
+                        value={category.name}
+                        onChange={(e) => updateCategory(category.id, { name: e.target.value })}
+                        className="h-8"
+                      />
+                      <Select value={category.color} onValueChange={(color) => updateCategory(category.id, { color })}>
+                        <SelectTrigger className="h-8 w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(CATEGORY_COLORS).map(([key, color]) => (
+                            <SelectItem key={key} value={key}>
+                              <span className="flex items-center">
+                                <span className={`w-3 h-3 rounded mr-2 ${color.bg}`} />
+                                {color.label}
+                              </span>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select value={category.icon} onValueChange={(icon) => updateCategory(category.id, { icon })}>
+                        <SelectTrigger className="h-8 w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(CATEGORY_ICONS).map(([key, { label, icon: OptionIcon }]) => (
+                            <SelectItem key={key} value={key}>
+                              <span className="flex items-center">
+                                <OptionIcon className="h-3 w-3 mr-2" />
+                                {label}
+                              </span>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => moveCategory(index, -1)} disabled={index === 0} title="Higher priority">
+                        <ArrowUp className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => moveCategory(index, 1)} disabled={index === draft.length - 1} title="Lower priority">
+                        <ArrowDown className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => setDraft(prev => prev.filter(c => c.id !== category.id))}
+                        title="Delete category"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+
+                    {category.matchers.map((matcher, matcherIndex) => {
+                      const error = matcher.type === "regex" ? regexError(matcher.pattern) : null;
+                      return (
+                        <div key={matcherIndex} className="flex items-center space-x-2 pl-6">
+                          <Select
+                            value={matcher.type}
+                            onValueChange={(type) => updateMatcher(category, matcherIndex, { type: type as CategoryMatcher["type"] })}
+                          >
+                            <SelectTrigger className="h-7 w-28 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {MATCHER_TYPES.map(type => (
+                                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            value={matcher.pattern}
+                            onChange={(e) => updateMatcher(category, matcherIndex, { pattern: e.target.value })}
+                            className={`h-7 text-xs font-mono ${error ? 'border-destructive' : ''}`}
+                            title={error ?? undefined}
+                            placeholder={matcher.type === "regex" ? "^SE_.*FA" : "BU_"}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            onClick={() => updateCategory(category.id, { matchers: category.matchers.filter((_, i) => i !== matcherIndex) })}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                    <div className="flex items-center justify-between pl-6">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() => updateCategory(category.id, { matchers: [...category.matchers, { type: "prefix", pattern: "" }] })}
+                      >
+                        <Plus className="h-3 w-3 mr-1" />
+                        Add rule
+                      </Button>
+                      {category.matchers.length === 0 && (
+                        <span className="text-xs text-muted-foreground">Collects unmatched columns</span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+              <Button variant="outline" size="sm" className="w-full" onClick={addCategory}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Category
+              </Button>
+            </div>
+          </ScrollArea>
+
+          <ScrollArea className="col-span-2 h-[28rem] border rounded-lg p-3">
+            {headers.row1.length === 0 && headers.row2.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Import room data to preview how its columns are grouped.</p>
+            ) : (
+              <div className="space-y-3">
+                {preview.map(({ category, columns }) => (
+                  <div key={category.id} className="space-y-1">
+                    <div className="flex items-center space-x-2 text-sm font-medium">
+                      <span className={`w-3 h-3 rounded ${categoryColor(category.color).bg}`} />
+                      <span>{category.name || 'Unnamed'}</span>
+                      <Badge variant="secondary" className="text-xs">{columns.length}</Badge>
+                    </div>
+                    <div className="flex flex-wrap gap-1 pl-5">
+                      {columns.map(column => (
+                        <code key={column} className="text-xs bg-muted px-1 rounded" title={headers.row1[column]}>
+                          {columnLabel(column)}
+                        </code>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setDraft(DEFAULT_COLUMN_CATEGORIES)} className="mr-auto">
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to Defaults
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              onSave(draft);
+              onOpenChange(false);
+            }}
+            disabled={hasInvalidRule}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,19 @@
+import { Box, Droplets, Flame, Home, MapPin, Ruler, Settings, Shield, Tag, Users, Wrench, Zap, type LucideIcon } from "lucide-react";
+
+// Icons a column category can use, by the key stored in project settings
+export const CATEGORY_ICONS: Record<string, { label: string; icon: LucideIcon }> = {
+  "map-pin": { label: "Location", icon: MapPin },
+  wrench: { label: "Wrench", icon: Wrench },
+  settings: { label: "Cog", icon: Settings },
+  ruler: { label: "Ruler", icon: Ruler },
+  shield: { label: "Shield", icon: Shield },
+  users: { label: "People", icon: Users },
+  flame: { label: "Flame", icon: Flame },
+  droplets: { label: "Water", icon: Droplets },
+  zap: { label: "Electric", icon: Zap },
+  home: { label: "Building", icon: Home },
+  box: { label: "Box", icon: Box },
+  tag: { label: "Tag", icon: Tag },
+};
+
+export const categoryIcon = (key: string) => CATEGORY_ICONS[key]?.icon ?? Tag;
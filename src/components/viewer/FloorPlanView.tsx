@@ -1,20 +1,43 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import { Stage, Layer, Line, Text, Group, Image as KonvaImage } from "react-konva";
+import { Stage, Layer, Line, Text, Group, Circle, Wedge, Image as KonvaImage } from "react-konva";
+import { LevelSwitcher } from "@/components/floorplan/LevelSwitcher";
+import { yawToBearing } from "@/lib/geometry";
+import { roomKeyForPolygon } from "@/lib/room-links";
+import type { KonvaEventObject } from "konva/lib/Node";
 
 interface Point { x: number; y: number }
-interface Room { id: string; name: string; polygon: Point[]; level?: string }
-interface FloorPlan { id: string; imageUrl: string; width: number; height: number; rooms: Room[] }
+interface Room { id: string; name: string; polygon: Point[]; level?: string; assignedDataId?: string }
+interface FloorPlan { id: string; level: string; imageUrl: string; width: number; height: number; rooms: Room[] }
+interface Panorama { nodeId: string; title: string; position?: Point; yawOffset?: number }
 
 interface FloorPlanViewProps {
   floorPlan: FloorPlan | null;
+  floors?: FloorPlan[];
+  onFloorChange?: (floorId: string) => void;
   selectedRoomId?: string | null;
   onRoomSelect?: (roomId: string | null) => void;
   showLabels?: boolean;
+  panoramas?: Panorama[];
+  currentNodeId?: string;
+  onPanoramaSelect?: (nodeId: string) => void;
+  view?: { yaw: number; hfov: number } | null;
 }
 
 const DEFAULT_ROOM_COLOR = "#10b981";
+const CONE_RADIUS = 48;
 
-export const FloorPlanView = ({ floorPlan, selectedRoomId, onRoomSelect, showLabels = true }: FloorPlanViewProps) => {
+export const FloorPlanView = ({
+  floorPlan,
+  floors = [],
+  onFloorChange,
+  selectedRoomId,
+  onRoomSelect,
+  showLabels = true,
+  panoramas = [],
+  currentNodeId,
+  onPanoramaSelect,
+  view
+}: FloorPlanViewProps) => {
   const stageRef = useRef<any>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [bgImage, setBgImage] = useState<HTMLImageElement | null>(null);
@@ -78,8 +101,61 @@ export const FloorPlanView = ({ floorPlan, selectedRoomId, onRoomSelect, showLab
     );
   };
 
+  // Rooms are selected by room key, so a polygon matches its own id or its spreadsheet room's
+  const isSelected = (room: Room) => !!selectedRoomId && (room.id === selectedRoomId || room.assignedDataId === selectedRoomId);
+
+  const setCursor = (e: KonvaEventObject<MouseEvent>, cursor: string) => {
+    const c = e.target.getStage()?.container();
+    if (c) c.style.cursor = cursor;
+  };
+
+  const renderCaptureMarker = (pano: Panorama) => {
+    if (!pano.position) return null;
+    const x = pano.position.x * scale;
+    const y = pano.position.y * scale;
+    const isActive = pano.nodeId === currentNodeId;
+    // Konva measures rotation clockwise from +x; bearings are clockwise from up
+    const fov = view?.hfov ?? 90;
+    const bearing = yawToBearing(view?.yaw ?? pano.yawOffset ?? 0, pano.yawOffset);
+    return (
+      <Group
+        key={pano.nodeId}
+        onClick={() => onPanoramaSelect?.(pano.nodeId)}
+        onTap={() => onPanoramaSelect?.(pano.nodeId)}
+        onMouseEnter={(e) => setCursor(e, 'pointer')}
+        onMouseLeave={(e) => setCursor(e, 'default')}
+      >
+        {isActive && (
+          <Wedge
+            x={x}
+            y={y}
+            radius={CONE_RADIUS}
+            angle={fov}
+            rotation={bearing - 90 - fov / 2}
+            fill="#3b82f6"
+            opacity={0.35}
+            listening={false}
+          />
+        )}
+        <Circle
+          x={x}
+          y={y}
+          radius={isActive ? 7 : 5}
+          fill={isActive ? '#3b82f6' : '#f97316'}
+          stroke="#ffffff"
+          strokeWidth={2}
+        />
+      </Group>
+    );
+  };
+
   return (
-    <div ref={containerRef} className="h-full border rounded-lg overflow-hidden bg-gray-50">
+    <div ref={containerRef} className="relative h-full border rounded-lg overflow-hidden bg-gray-50">
+      {floors.length > 1 && onFloorChange && (
+        <div className="absolute top-2 right-2 z-10 bg-card rounded-md shadow-card">
+          <LevelSwitcher floors={floors} activeFloorId={floorPlan.id} onFloorChange={onFloorChange} className="w-40 h-8" />
+        </div>
+      )}
       <Stage
         ref={stageRef}
         width={stageWidth}
@@ -97,8 +173,8 @@ export const FloorPlanView = ({ floorPlan, selectedRoomId, onRoomSelect, showLab
           )}
 
           {floorPlan.rooms.map(room => (
-            <Group key={room.id} onClick={() => onRoomSelect?.(room.id === selectedRoomId ? null : room.id)} onMouseEnter={(e) => { const c = e.target.getStage()?.container(); if (c) c.style.cursor = 'pointer'; }} onMouseLeave={(e) => { const c = e.target.getStage()?.container(); if (c) c.style.cursor = 'default'; }}>
-              {renderPolygon(room.polygon, DEFAULT_ROOM_COLOR, selectedRoomId === room.id)}
+            <Group key={room.id} onClick={() => onRoomSelect?.(isSelected(room) ? null : roomKeyForPolygon(room))} onMouseEnter={(e) => setCursor(e, 'pointer')} onMouseLeave={(e) => setCursor(e, 'default')}>
+              {renderPolygon(room.polygon, DEFAULT_ROOM_COLOR, isSelected(room))}
               {showLabels && room.polygon[0] && (
                 <Text
                   x={room.polygon[0].x * scale}
@@ -110,6 +186,10 @@ export const FloorPlanView = ({ floorPlan, selectedRoomId, onRoomSelect, showLab
               )}
             </Group>
           ))}
+
+          {/* Panorama capture points, active one drawn last so it sits on top */}
+          {panoramas.filter(p => p.nodeId !== currentNodeId).map(renderCaptureMarker)}
+          {panoramas.filter(p => p.nodeId === currentNodeId).map(renderCaptureMarker)}
         </Layer>
       </Stage>
     </div>
@@ -1,12 +1,18 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { ChevronLeft, ChevronRight, Maximize2, Minimize2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { FloorPlanView } from "@/components/viewer/FloorPlanView";
-import { PanoramaViewer } from "@/components/panorama/PanoramaViewer";
+import { PanoramaViewer, type PanoramaView } from "@/components/panorama/PanoramaViewer";
 import { ViewerPanel } from "@/components/viewer/ViewerPanel";
+import { LevelSwitcher } from "@/components/floorplan/LevelSwitcher";
+import { floorForPanorama, panoramasOnFloor } from "@/lib/building";
+import { measurePolygon } from "@/lib/geometry";
+import { canonicalRoomKey, panoramaRoomKey, panoramasInRoom, polygonForRoom, roomDisplayName } from "@/lib/room-links";
+import { ALL_ROOMS, applyRoomView, createFilterContext, staleColumns } from "@/lib/room-filters";
+import type { Building, ColumnCategory, PanoramaHotspot, Point, RoomHeaders, RoomView } from "@/types/project";
 
 interface Room {
   id: string;
@@ -15,6 +21,7 @@ interface Room {
 
 interface FloorPlan {
   id: string;
+  level: string;
   imageUrl: string;
   width: number;
   height: number;
@@ -41,17 +48,26 @@ interface Panorama {
   rollOffset?: number;
   metadata?: any;
   roomId?: string;
+  polygonId?: string;
+  position?: Point;
+  hotspots?: PanoramaHotspot[];
 }
 
 interface ThreePaneViewerProps {
+  building: Building;
   floorPlan: FloorPlan | null;
+  onFloorChange: (floorId: string) => void;
   rooms: Room[];
-  headers: { row1: string[]; row2: string[] };
+  headers: RoomHeaders;
   panoramas: Panorama[];
   selectedRoomId?: string | null;
   currentNodeId: string;
+  areaTolerancePercent?: number;
+  columnCategories?: ColumnCategory[];
+  roomViews?: RoomView[];
   onRoomSelect: (roomId: string | null) => void;
   onPanoramaChange: (nodeId: string) => void;
+  onHotspotsChange?: (nodeId: string, hotspots: PanoramaHotspot[]) => void;
 }
 
 type PaneState = 'collapsed' | 'normal' | 'expanded';
@@ -63,14 +79,20 @@ interface ViewerState {
 }
 
 export const ThreePaneViewer = ({
+  building,
   floorPlan,
+  onFloorChange,
   rooms,
   headers,
   panoramas,
   selectedRoomId,
   currentNodeId,
+  areaTolerancePercent,
+  columnCategories,
+  roomViews = [],
   onRoomSelect,
-  onPanoramaChange
+  onPanoramaChange,
+  onHotspotsChange
 }: ThreePaneViewerProps) => {
   const [viewerState, setViewerState] = useState<ViewerState>(() => {
     // Load from localStorage or use defaults
@@ -89,18 +111,51 @@ export const ThreePaneViewer = ({
     };
   });
 
+  const [view, setView] = useState<PanoramaView | null>(null);
+  const [roomViewId, setRoomViewId] = useState(ALL_ROOMS.id);
+
+  // Drop the previous panorama's view until the new one reports in
+  useEffect(() => {
+    setView(null);
+  }, [currentNodeId]);
+
   // Save state to localStorage
   useEffect(() => {
     localStorage.setItem('viewer-state', JSON.stringify(viewerState));
   }, [viewerState]);
 
-  // Ensure a valid current node is selected based on the current room filter
+  // The selection may be a polygon id or a spreadsheet room id; panoramas are linked by room key
+  const selectedRoomKey = selectedRoomId ? canonicalRoomKey(building, selectedRoomId) : null;
+
+  const floorPanoramas = useMemo(
+    () => panoramasOnFloor(building, panoramas, floorPlan?.id ?? null),
+    [building, panoramas, floorPlan?.id]
+  );
+
+  // Panoramas grouped by level for the jump-to selector
+  const panoramaGroups = useMemo(() => {
+    const groups = building.floors.map(floor => ({ id: floor.id, label: floor.level, items: [] as Panorama[] }));
+    const unplaced = { id: 'unplaced', label: 'No level', items: [] as Panorama[] };
+    panoramas.forEach(pano => {
+      const floor = floorForPanorama(building, pano);
+      (groups.find(g => g.id === floor?.id) ?? unplaced).items.push(pano);
+    });
+    return [...groups, unplaced].filter(g => g.items.length > 0);
+  }, [building, panoramas]);
+
+  // Rooms offered by the room selector, narrowed by a saved view from the rooms table
+  const selectableRooms = useMemo(() => {
+    const roomView = roomViews.find(v => v.id === roomViewId) ?? ALL_ROOMS;
+    return applyRoomView(rooms, roomView, createFilterContext({ headers, building, panoramas }));
+  }, [rooms, headers, building, panoramas, roomViews, roomViewId]);
+
+  // Ensure a valid current node is selected based on the current room and level filter
   useEffect(() => {
-    const list = selectedRoomId ? panoramas.filter(p => p.roomId === selectedRoomId) : panoramas;
+    const list = selectedRoomKey ? panoramasInRoom(panoramas, selectedRoomKey) : floorPanoramas;
     if (list.length > 0 && !list.some(p => p.nodeId === currentNodeId)) {
       onPanoramaChange(list[0].nodeId);
     }
-  }, [selectedRoomId, panoramas]);
+  }, [selectedRoomId, floorPanoramas]);
 
   const togglePane = (pane: keyof ViewerState) => {
     setViewerState(prev => ({
@@ -127,15 +182,36 @@ export const ThreePaneViewer = ({
   };
 
   const getCurrentRoom = (): Room | null => {
-    if (selectedRoomId) {
-      return rooms.find(room => room.id === selectedRoomId) || null;
+    if (selectedRoomKey) {
+      return rooms.find(room => room.id === selectedRoomKey) || null;
+    }
+    return null;
+  };
+
+  // Area of the polygon drawn for the current room, when its level has a scale
+  const getComputedArea = (room: Room | null): number | null => {
+    if (!room) return null;
+    for (const floor of building.floors) {
+      const polygon = floor.rooms.find(r => r.assignedDataId === room.id);
+      if (polygon) {
+        return floor.pixelsPerMetre ? measurePolygon(polygon.polygon, floor.pixelsPerMetre).area : null;
+      }
     }
     return null;
   };
 
   const getSelectedRoomPanoramas = (): Panorama[] => {
-    if (!selectedRoomId) return [];
-    return panoramas.filter(p => p.roomId === selectedRoomId);
+    if (!selectedRoomKey) return [];
+    return panoramasInRoom(panoramas, selectedRoomKey);
+  };
+
+  // Following a hotspot into another room moves the room selection along with it
+  const handlePanoramaNavigate = (nodeId: string) => {
+    const target = panoramas.find(p => p.nodeId === nodeId);
+    if (selectedRoomKey && target && panoramaRoomKey(target) !== selectedRoomKey) {
+      onRoomSelect(panoramaRoomKey(target));
+    }
+    onPanoramaChange(nodeId);
   };
 
   const getGridCols = () => {
@@ -179,12 +255,44 @@ export const ThreePaneViewer = ({
                 </Button>
               </div>
             </div>
+            {rooms.length > 0 && (
+              <div className="flex items-center space-x-2">
+                {roomViews.length > 0 && (
+                  <Select value={roomViewId} onValueChange={setRoomViewId}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_ROOMS.id}>{ALL_ROOMS.name}</SelectItem>
+                      {roomViews.map(v => (
+                        <SelectItem key={v.id} value={v.id}>
+                          {v.name}{staleColumns(v, headers).length > 0 ? ' (stale)' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Select
+                  value={selectedRoomKey && selectableRooms.some(room => room.id === selectedRoomKey) ? selectedRoomKey : ""}
+                  onValueChange={onRoomSelect}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder={`Select room (${selectableRooms.length})`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {selectableRooms.map(room => (
+                      <SelectItem key={room.id} value={room.id}>{roomDisplayName(room, headers)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             {floorPlan && (
               <div className="flex items-center space-x-2">
                 <Badge variant="outline">{floorPlan.rooms.length} rooms</Badge>
-                {selectedRoomId && (
+                {selectedRoomKey && (
                   <Badge variant="default">
-                    {floorPlan.rooms.find(r => r.id === selectedRoomId)?.name || 'Selected'}
+                    {polygonForRoom(building, selectedRoomKey)?.polygon.name || 'Selected'}
                   </Badge>
                 )}
               </div>
@@ -194,8 +302,14 @@ export const ThreePaneViewer = ({
             <div className="h-full">
               <FloorPlanView
                 floorPlan={floorPlan}
+                floors={building.floors}
+                onFloorChange={onFloorChange}
                 selectedRoomId={selectedRoomId}
                 onRoomSelect={onRoomSelect}
+                panoramas={floorPanoramas}
+                currentNodeId={currentNodeId}
+                onPanoramaSelect={handlePanoramaNavigate}
+                view={view}
               />
             </div>
           </CardContent>
@@ -227,7 +341,7 @@ export const ThreePaneViewer = ({
               </div>
             </div>
             
-            {selectedRoomId && (
+            {selectedRoomId ? (
               <div className="flex items-center space-x-2">
                 <Select
                   value={currentNodeId}
@@ -248,14 +362,46 @@ export const ThreePaneViewer = ({
                   {getSelectedRoomPanoramas().length} panoramas
                 </Badge>
               </div>
+            ) : panoramas.length > 0 && (
+              <div className="flex items-center space-x-2">
+                <LevelSwitcher
+                  floors={building.floors}
+                  activeFloorId={floorPlan?.id ?? null}
+                  onFloorChange={onFloorChange}
+                  className="w-40"
+                />
+                <Select
+                  value={currentNodeId}
+                  onValueChange={onPanoramaChange}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Jump to panorama" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {panoramaGroups.map(group => (
+                      <SelectGroup key={group.id}>
+                        <SelectLabel>{group.label}</SelectLabel>
+                        {group.items.map(pano => (
+                          <SelectItem key={pano.nodeId} value={pano.nodeId}>
+                            {pano.title || pano.nodeId}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             )}
           </CardHeader>
           <CardContent className="flex-1 p-0">
             <div className="h-full">
               <PanoramaViewer
-                panoramas={selectedRoomId ? getSelectedRoomPanoramas() : panoramas}
+                panoramas={selectedRoomId ? getSelectedRoomPanoramas() : floorPanoramas}
                 currentNodeId={currentNodeId}
-                onPanoramaChange={onPanoramaChange}
+                onPanoramaChange={handlePanoramaNavigate}
+                linkTargets={panoramas}
+                onHotspotsChange={onHotspotsChange}
+                onViewChange={setView}
               />
             </div>
           </CardContent>
@@ -291,6 +437,9 @@ export const ThreePaneViewer = ({
               room={getCurrentRoom()}
               headers={headers}
               currentNodeId={currentNodeId}
+              computedArea={getComputedArea(getCurrentRoom())}
+              areaTolerancePercent={areaTolerancePercent}
+              categories={columnCategories}
             />
           </div>
         </div>
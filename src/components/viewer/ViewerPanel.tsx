@@ -1,11 +1,16 @@
 import { useState } from "react";
-import { ChevronDown, ChevronRight, Copy, ExternalLink, MapPin, Ruler, Users, Wrench, Shield, Settings } from "lucide-react";
+import { ChevronDown, ChevronRight, Copy, ExternalLink, MapPin, Ruler, AlertTriangle, type LucideIcon } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Separator } from "@/components/ui/separator";
 import { toast } from "sonner";
+import { checkArea, findAreaColumn, formatArea, getReportedArea } from "@/lib/room-area";
+import { resolveRoomFields, roomCode, roomLevel, roomName as getRoomName } from "@/lib/room-fields";
+import { DEFAULT_COLUMN_CATEGORIES, categorizeColumns, categoryColor } from "@/lib/column-categories";
+import { categoryIcon } from "@/components/settings/category-icons";
+import type { ColumnCategory, RoomHeaders } from "@/types/project";
 
 interface Room {
   id: string;
@@ -14,20 +19,25 @@ interface Room {
 
 interface ViewerPanelProps {
   room: Room | null;
-  headers: { row1: string[]; row2: string[] };
+  headers: RoomHeaders;
   currentNodeId: string;
+  computedArea?: number | null;
+  areaTolerancePercent?: number;
+  categories?: ColumnCategory[];
 }
 
 interface FieldSection {
+  id: string;
   title: string;
-  icon: any;
+  icon: LucideIcon;
   color: string;
   fields: { label: string; code: string; value: any; index: number }[];
 }
 
-export const ViewerPanel = ({ room, headers, currentNodeId }: ViewerPanelProps) => {
+export const ViewerPanel = ({ room, headers, currentNodeId, computedArea, areaTolerancePercent = 10, categories = DEFAULT_COLUMN_CATEGORIES }: ViewerPanelProps) => {
+  // The first category starts open
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
-    basic: true,
+    [categories[0]?.id ?? 'basic']: true,
   });
   const [showEmpty, setShowEmpty] = useState(false);
 
@@ -55,54 +65,42 @@ export const ViewerPanel = ({ room, headers, currentNodeId }: ViewerPanelProps)
   }
 
   const categorizeFields = (): FieldSection[] => {
-    const sections: FieldSection[] = [
-      { title: "Basic Info", icon: MapPin, color: "text-primary", fields: [] },
-      { title: "Fabric & Finishes", icon: Wrench, color: "text-vue-green", fields: [] },
-      { title: "Fittings & Equipment", icon: Settings, color: "text-sync-blue", fields: [] },
-      { title: "Services (M&E)", icon: Ruler, color: "text-sync-blue", fields: [] },
-      { title: "Protection & Alarms", icon: Shield, color: "text-destructive", fields: [] },
-      { title: "Miscellaneous", icon: Users, color: "text-purple", fields: [] },
-    ];
-
-    headers.row2.forEach((code, index) => {
-      const codeUpper = code?.toString().toUpperCase() || '';
-      const label = headers.row1[index] || code || '';
-      const value = room.data[index];
-
-      const field = { label, code, value, index };
-
-      if (codeUpper.includes('ROOM') || codeUpper.includes('REF') || codeUpper.includes('DATE') || (codeUpper.includes('Q0') && !codeUpper.includes('BU_') && !codeUpper.includes('SE_'))) {
-        sections[0].fields.push(field);
-      } else if (codeUpper.includes('BU_')) {
-        sections[1].fields.push(field);
-      } else if (codeUpper.includes('FE_') || codeUpper.includes('ASSET')) {
-        sections[2].fields.push(field);
-      } else if (codeUpper.includes('SE_') && (codeUpper.includes('WA') || codeUpper.includes('GS') || codeUpper.includes('GP') || codeUpper.includes('RT') || codeUpper.includes('SP') || codeUpper.includes('SN') || codeUpper.includes('ST') || codeUpper.includes('VC') || codeUpper.includes('LS') || codeUpper.includes('TP') || codeUpper.includes('AV') || codeUpper.includes('CO') || codeUpper.includes('P3') || codeUpper.includes('PH') || codeUpper.includes('SL') || codeUpper.includes('EL'))) {
-        sections[3].fields.push(field);
-      } else if (codeUpper.includes('SE_') && (codeUpper.includes('FP') || codeUpper.includes('FA') || codeUpper.includes('SH') || codeUpper.includes('SI') || codeUpper.includes('AS') || codeUpper.includes('ES') || codeUpper.includes('CP') || codeUpper.includes('DA'))) {
-        sections[4].fields.push(field);
-      } else {
-        sections[5].fields.push(field);
-      }
-    });
-
-    return sections.filter(section => section.fields.length > 0);
+    const fields = resolveRoomFields(headers);
+    const groups = categorizeColumns(headers, categories, [fields.id, fields.name, fields.level, fields.area]);
+    return groups
+      .filter(group => group.columns.length > 0)
+      .map(({ category, columns }) => ({
+        id: category.id,
+        title: category.name,
+        icon: categoryIcon(category.icon),
+        color: categoryColor(category.color).text,
+        fields: columns.map(index => ({
+          label: headers.row1[index] || headers.row2[index] || '',
+          code: headers.row2[index] || '',
+          value: room.data[index],
+          index,
+        })),
+      }));
   };
 
   const sections = categorizeFields();
-  const roomName = room.data[1] || 'Unnamed Room';
-  const roomId = room.data[0] || 'No ID';
-  const area = room.data.find((_, index) => headers.row2[index]?.includes('Q01')) || 'N/A';
+  const roomName = getRoomName(room, headers) || 'Unnamed Room';
+  const roomId = roomCode(room, headers) || 'No ID';
+  const level = roomLevel(room, headers);
+  const areaColumn = findAreaColumn(headers);
+  const area = (areaColumn >= 0 && room.data[areaColumn]) || 'N/A';
+  const reportedArea = getReportedArea(room, headers);
+  const areaCheck = computedArea && reportedArea !== null ? checkArea(computedArea, reportedArea, areaTolerancePercent) : null;
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast.success('Copied to clipboard');
   };
 
-  const toggleSection = (sectionTitle: string) => {
+  const toggleSection = (sectionId: string) => {
     setExpandedSections(prev => ({
       ...prev,
-      [sectionTitle.toLowerCase().replace(/[^a-z]/g, '')]: !prev[sectionTitle.toLowerCase().replace(/[^a-z]/g, '')]
+      [sectionId]: !prev[sectionId]
     }));
   };
 
@@ -132,10 +130,25 @@ export const ViewerPanel = ({ room, headers, currentNodeId }: ViewerPanelProps)
           </div>
           
           <div className="flex items-center space-x-2">
+            {level && (
+              <Badge variant="secondary" className="text-xs">
+                {level}
+              </Badge>
+            )}
             <Badge variant="secondary" className="text-xs">
               <Ruler className="h-3 w-3 mr-1" />
               {area} m²
             </Badge>
+            {computedArea ? (
+              <Badge
+                variant="outline"
+                className={`text-xs ${areaCheck?.mismatch ? 'border-amber-500 text-amber-600' : ''}`}
+                title={areaCheck ? `${areaCheck.differencePercent > 0 ? '+' : ''}${areaCheck.differencePercent.toFixed(1)}% vs spreadsheet` : 'Measured from floor plan'}
+              >
+                {areaCheck?.mismatch && <AlertTriangle className="h-3 w-3 mr-1" />}
+                Drawn {formatArea(computedArea)}
+              </Badge>
+            ) : null}
             <Badge variant="outline" className="text-xs font-mono">
               {currentNodeId}
             </Badge>
@@ -162,8 +175,7 @@ export const ViewerPanel = ({ room, headers, currentNodeId }: ViewerPanelProps)
       
       <CardContent className="flex-1 overflow-y-auto space-y-3">
         {sections.map((section) => {
-          const sectionKey = section.title.toLowerCase().replace(/[^a-z]/g, '');
-          const isExpanded = expandedSections[sectionKey];
+          const isExpanded = expandedSections[section.id];
           const fieldsToShow = showEmpty 
             ? section.fields 
             : section.fields.filter(field => hasValue(field.value));
@@ -176,9 +188,9 @@ export const ViewerPanel = ({ room, headers, currentNodeId }: ViewerPanelProps)
           
           return (
             <Collapsible
-              key={section.title}
+              key={section.id}
               open={isExpanded}
-              onOpenChange={() => toggleSection(section.title)}
+              onOpenChange={() => toggleSection(section.id)}
             >
               <CollapsibleTrigger asChild>
                 <Button
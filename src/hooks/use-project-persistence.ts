@@ -0,0 +1,127 @@
+import { useEffect, useRef, useState } from "react";
+import { getBlob, loadProjectRecord, pruneBlobs, putBlob, saveProjectRecord } from "@/lib/project-db";
+import {
+  createSnapshot,
+  foldAssignmentsSnapshot,
+  restoreSnapshot,
+  snapshotBlobKeys,
+  upgradeSingleFloorSnapshot,
+  type AssignmentsSnapshot,
+  type ProjectSnapshot,
+  type SingleFloorSnapshot,
+} from "@/lib/project-snapshot";
+import type { ProjectState } from "@/types/project";
+
+const SAVE_DELAY_MS = 500;
+const STORED_PROJECT_VERSION = 3;
+
+interface StoredProject {
+  version: number;
+  savedAt: string;
+  snapshot: ProjectSnapshot;
+}
+
+// v1 records predate multi-floor buildings, v2 records still carry panorama assignments
+const upgradeStoredProject = (record: StoredProject): StoredProject => {
+  let upgraded = record;
+  if (upgraded.version < 2) {
+    upgraded = { ...upgraded, version: 2, snapshot: upgradeSingleFloorSnapshot(upgraded.snapshot as SingleFloorSnapshot) };
+  }
+  if (upgraded.version < 3) {
+    upgraded = { ...upgraded, version: 3, snapshot: foldAssignmentsSnapshot(upgraded.snapshot as AssignmentsSnapshot) };
+  }
+  return upgraded;
+};
+
+export type PersistenceStatus = "loading" | "ready" | "unavailable";
+
+/**
+ * Keeps the project in IndexedDB. On mount the last saved project is restored (object URLs
+ * are regenerated from the stored blobs) and handed to `onRestore`; afterwards every change
+ * to `state` is saved after a short debounce. Blobs are kept while `state` or one of
+ * `undoStates` refers to them.
+ */
+export function useProjectPersistence(
+  state: ProjectState,
+  onRestore: (state: ProjectState) => void,
+  undoStates: ProjectState[] = []
+) {
+  const [status, setStatus] = useState<PersistenceStatus>("loading");
+  // asset key → object URL that is already stored, so unchanged images are not re-written
+  const persistedUrls = useRef(new Map<string, string>());
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+  const undoStatesRef = useRef(undoStates);
+  undoStatesRef.current = undoStates;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      try {
+        const stored = await loadProjectRecord<StoredProject>();
+        const record = stored?.snapshot ? upgradeStoredProject(stored) : null;
+        if (record) {
+          const urls = new Map<string, string>();
+          for (const key of snapshotBlobKeys(record.snapshot)) {
+            const blob = await getBlob(key);
+            if (blob) urls.set(key, URL.createObjectURL(blob));
+          }
+          if (cancelled) return;
+          urls.forEach((url, key) => persistedUrls.current.set(key, url));
+          onRestoreRef.current(restoreSnapshot(record.snapshot, key => urls.get(key)));
+        }
+        if (!cancelled) setStatus("ready");
+      } catch (e) {
+        console.error("Failed to restore project from IndexedDB", e);
+        if (!cancelled) setStatus("unavailable");
+      }
+    };
+
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    // Never save before the restore finished, or the empty initial state would overwrite it
+    if (status !== "ready") return;
+
+    const timer = setTimeout(() => {
+      saveQueue.current = saveQueue.current.then(async () => {
+        try {
+          const { snapshot, assets } = createSnapshot(state);
+
+          for (const asset of assets) {
+            if (persistedUrls.current.get(asset.key) === asset.url) continue;
+            try {
+              const blob = await (await fetch(asset.url)).blob();
+              await putBlob(asset.key, blob);
+              persistedUrls.current.set(asset.key, asset.url);
+            } catch (e) {
+              console.warn(`Failed to store asset ${asset.key}`, e);
+            }
+          }
+
+          const record: StoredProject = { version: STORED_PROJECT_VERSION, savedAt: new Date().toISOString(), snapshot };
+          await saveProjectRecord(record);
+          const keep = new Set(snapshotBlobKeys(snapshot));
+          undoStatesRef.current.forEach(undoState => {
+            snapshotBlobKeys(createSnapshot(undoState).snapshot).forEach(key => keep.add(key));
+          });
+          // Forget what was pruned so the image is written again if it ever comes back
+          const pruned = await pruneBlobs(keep);
+          pruned.forEach(key => persistedUrls.current.delete(key));
+        } catch (e) {
+          console.error("Failed to save project to IndexedDB", e);
+        }
+      });
+    }, SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [state, status]);
+
+  return status;
+}
@@ -0,0 +1,158 @@
+import { useCallback, useReducer } from "react";
+import { createBuilding, renameFloor } from "@/lib/building";
+import { DEFAULT_PROJECT_SETTINGS } from "@/lib/project-settings";
+import { assignPanoramas, deleteFloor, deletePolygons, importRooms, linkPolygon, type PanoramaLink, type PolygonLink } from "@/lib/room-links";
+import type { Building, ColumnSchema, PanoramaItem, ProjectSettings, ProjectState, Room, RoomHeaders } from "@/types/project";
+
+export type ProjectAction =
+  | { type: "load"; state: ProjectState }
+  | { type: "importRooms"; rooms: Room[]; headers: RoomHeaders }
+  | { type: "updateRoomData"; roomId: string; data: Room["data"] }
+  | { type: "updateRoomsData"; updates: Record<string, Room["data"]> } // by room id, one undo step
+  | { type: "updateColumnSchema"; column: number; schema: ColumnSchema }
+  | { type: "updatePanoramas"; update: (panoramas: PanoramaItem[]) => PanoramaItem[] }
+  | { type: "updateBuilding"; update: (building: Building) => Building }
+  | { type: "renameFloor"; floorId: string; level: string }
+  | { type: "deleteFloor"; floorId: string }
+  | { type: "updateSettings"; patch: Partial<ProjectSettings> }
+  | { type: "assignPanoramas"; links: PanoramaLink[] }
+  | { type: "linkPolygon"; polygonId: string; dataRoomId: string | null; name?: string }
+  | { type: "linkPolygons"; links: PolygonLink[] } // one undo step
+  | { type: "deletePolygons"; polygonIds: string[] };
+
+export const createEmptyProject = (): ProjectState => ({
+  rooms: [],
+  headers: { row1: [], row2: [] },
+  panoramas: [],
+  building: createBuilding(),
+  settings: DEFAULT_PROJECT_SETTINGS,
+});
+
+export const projectReducer = (state: ProjectState, action: ProjectAction): ProjectState => {
+  switch (action.type) {
+    case "load":
+      return action.state;
+    case "importRooms":
+      return importRooms(state, action.rooms, action.headers);
+    case "updateRoomData":
+      return {
+        ...state,
+        rooms: state.rooms.map(room => (room.id === action.roomId ? { ...room, data: action.data } : room)),
+      };
+    case "updateRoomsData":
+      return {
+        ...state,
+        rooms: state.rooms.map(room => (action.updates[room.id] ? { ...room, data: action.updates[room.id] } : room)),
+      };
+    case "updateColumnSchema": {
+      const width = Math.max(state.headers.row1.length, state.headers.row2.length);
+      const schema = Array.from({ length: width }, (_, i) => state.headers.schema?.[i] ?? { type: "text" as const });
+      schema[action.column] = action.schema;
+      return { ...state, headers: { ...state.headers, schema } };
+    }
+    case "updatePanoramas":
+      return { ...state, panoramas: action.update(state.panoramas) };
+    case "updateBuilding":
+      return { ...state, building: action.update(state.building) };
+    case "renameFloor":
+      return renameFloor(state, action.floorId, action.level);
+    case "deleteFloor":
+      return deleteFloor(state, action.floorId);
+    case "updateSettings":
+      return { ...state, settings: { ...state.settings, ...action.patch } };
+    case "assignPanoramas":
+      return assignPanoramas(state, action.links);
+    case "linkPolygon":
+      return linkPolygon(state, action.polygonId, action.dataRoomId, action.name);
+    case "linkPolygons":
+      return action.links.reduce((next, link) => linkPolygon(next, link.polygonId, link.dataRoomId, link.name), state);
+    case "deletePolygons":
+      return deletePolygons(state, action.polygonIds);
+  }
+};
+
+// Undo steps kept in memory
+const HISTORY_LIMIT = 100;
+
+export interface DispatchOptions {
+  // Consecutive actions with the same key collapse into one undo step, e.g. every move of one vertex drag
+  coalesce?: string;
+}
+
+interface ProjectHistory {
+  past: ProjectState[];
+  present: ProjectState;
+  future: ProjectState[];
+  coalesce: string | null;
+}
+
+type HistoryAction =
+  | { type: "apply"; action: ProjectAction; coalesce?: string }
+  | { type: "undo" }
+  | { type: "redo" };
+
+const historyReducer = (history: ProjectHistory, action: HistoryAction): ProjectHistory => {
+  switch (action.type) {
+    case "undo": {
+      if (history.past.length === 0) return history;
+      return {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future],
+        coalesce: null,
+      };
+    }
+    case "redo": {
+      if (history.future.length === 0) return history;
+      return {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1),
+        coalesce: null,
+      };
+    }
+    case "apply": {
+      // Loading a project starts a fresh history
+      if (action.action.type === "load") {
+        return { past: [], present: action.action.state, future: [], coalesce: null };
+      }
+      const present = projectReducer(history.present, action.action);
+      if (present === history.present) return history;
+      const coalesce = action.coalesce ?? null;
+      if (coalesce && coalesce === history.coalesce) {
+        return { ...history, present, future: [] };
+      }
+      return {
+        past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+        present,
+        future: [],
+        coalesce,
+      };
+    }
+  }
+};
+
+const createHistory = (): ProjectHistory => ({ past: [], present: createEmptyProject(), future: [], coalesce: null });
+
+/** The project domain store shared by every tab, with undo/redo over every change. */
+export function useProjectStore() {
+  const [history, send] = useReducer(historyReducer, undefined, createHistory);
+
+  const dispatch = useCallback(
+    (action: ProjectAction, options?: DispatchOptions) => send({ type: "apply", action, coalesce: options?.coalesce }),
+    []
+  );
+  const undo = useCallback(() => send({ type: "undo" }), []);
+  const redo = useCallback(() => send({ type: "redo" }), []);
+
+  return {
+    state: history.present,
+    dispatch,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    // States undo/redo can still return to; their images must stay stored
+    undoStates: [...history.past, ...history.future],
+  };
+}
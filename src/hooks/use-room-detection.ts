@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import RoomDetectionWorker from "@/lib/room-detection.worker?worker";
+import type { DetectionOptions, PlanPixels, RoomDetectionMessage, RoomDetectionReply } from "@/lib/room-detection";
+import type { Point } from "@/types/project";
+
+interface PendingDetection {
+  resolve: (polygon: Point[]) => void;
+  reject: (error: Error) => void;
+}
+
+const loadPlanPixels = (imageUrl: string): Promise<PlanPixels> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext("2d", { willReadFrequently: true });
+      if (!ctx) return reject(new Error("Canvas not supported"));
+      ctx.drawImage(img, 0, 0);
+      const { width, height, data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      resolve({ width, height, data });
+    };
+    img.onerror = () => reject(new Error("Failed to load the floor plan image"));
+    img.src = imageUrl;
+  });
+
+// Replies are matched to their requests by id
+const createWorker = (pending: Map<number, PendingDetection>) => {
+  const worker = new RoomDetectionWorker();
+  worker.onmessage = (event: MessageEvent<RoomDetectionReply>) => {
+    const reply = event.data;
+    const request = pending.get(reply.id);
+    if (!request) return;
+    pending.delete(reply.id);
+    if ("error" in reply) request.reject(new Error(reply.error));
+    else request.resolve(reply.polygon);
+  };
+  worker.onerror = () => {
+    pending.forEach(p => p.reject(new Error("Room detection failed")));
+    pending.clear();
+  };
+  return worker;
+};
+
+/**
+ * Detects room outlines on a floor plan image in a Web Worker. The worker is started on
+ * first use and receives the plan's pixels once per image.
+ */
+export function useRoomDetection(imageUrl: string | undefined) {
+  const workerRef = useRef<Worker | null>(null);
+  const loadedKeyRef = useRef<string | null>(null);
+  const pendingRef = useRef(new Map<number, PendingDetection>());
+  const nextIdRef = useRef(0);
+  const [detecting, setDetecting] = useState(false);
+
+  useEffect(() => {
+    const pending = pendingRef.current;
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      loadedKeyRef.current = null;
+      pending.forEach(p => p.reject(new Error("Room detection was stopped")));
+      pending.clear();
+    };
+  }, []);
+
+  const post = useCallback((message: RoomDetectionMessage, transfer: Transferable[] = []) => {
+    if (!workerRef.current) workerRef.current = createWorker(pendingRef.current);
+    workerRef.current.postMessage(message, transfer);
+  }, []);
+
+  const detect = useCallback(async (seed: Point, options: DetectionOptions): Promise<Point[]> => {
+    if (!imageUrl) throw new Error("No floor plan image");
+    setDetecting(true);
+    try {
+      if (loadedKeyRef.current !== imageUrl) {
+        const pixels = await loadPlanPixels(imageUrl);
+        // Hand the buffer over rather than copying a large plan
+        post({ type: "image", key: imageUrl, ...pixels }, [pixels.data.buffer]);
+        loadedKeyRef.current = imageUrl;
+      }
+      const id = ++nextIdRef.current;
+      return await new Promise<Point[]>((resolve, reject) => {
+        pendingRef.current.set(id, { resolve, reject });
+        post({ type: "detect", id, key: imageUrl, seed, options });
+      });
+    } finally {
+      setDetecting(false);
+    }
+  }, [imageUrl, post]);
+
+  return { detect, detecting };
+}
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState, type RefObject } from "react";
+
+interface VirtualGridOptions {
+  rowCount: number;
+  rowHeight: number;
+  columnCount: number;
+  columnWidth: number;
+  headerHeight: number; // sticky header above the rows
+  frozenWidth: number; // sticky columns left of the scrolling ones
+  overscan?: number;
+}
+
+export interface VirtualRange {
+  rowStart: number;
+  rowEnd: number; // exclusive
+  columnStart: number;
+  columnEnd: number; // exclusive
+}
+
+interface Viewport {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+const DEFAULT_OVERSCAN = 4;
+
+/**
+ * Rows and scrolling columns of a fixed-size grid that are within (or near) the visible
+ * part of `ref`, a scroll container. Rendering only these keeps large tables responsive.
+ */
+export function useVirtualGrid(ref: RefObject<HTMLElement>, options: VirtualGridOptions) {
+  const { rowCount, rowHeight, columnCount, columnWidth, headerHeight, frozenWidth } = options;
+  const overscan = options.overscan ?? DEFAULT_OVERSCAN;
+  const [viewport, setViewport] = useState<Viewport>({ top: 0, left: 0, width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() =>
+        setViewport({ top: element.scrollTop, left: element.scrollLeft, width: element.clientWidth, height: element.clientHeight })
+      );
+    };
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    element.addEventListener("scroll", update, { passive: true });
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+      element.removeEventListener("scroll", update);
+    };
+  }, [ref]);
+
+  const bodyHeight = Math.max(0, viewport.height - headerHeight);
+  const bodyWidth = Math.max(0, viewport.width - frozenWidth);
+  const range: VirtualRange = {
+    rowStart: Math.max(0, Math.floor(viewport.top / rowHeight) - overscan),
+    rowEnd: Math.min(rowCount, Math.ceil((viewport.top + bodyHeight) / rowHeight) + overscan),
+    columnStart: Math.max(0, Math.floor(viewport.left / columnWidth) - overscan),
+    columnEnd: Math.min(columnCount, Math.ceil((viewport.left + bodyWidth) / columnWidth) + overscan),
+  };
+
+  /** Scroll just enough to show a cell; `column` -1 leaves the horizontal scroll alone. */
+  const scrollToCell = useCallback((row: number, column: number) => {
+    const element = ref.current;
+    if (!element) return;
+    const visibleHeight = element.clientHeight - headerHeight;
+    const top = row * rowHeight;
+    if (top < element.scrollTop) element.scrollTop = top;
+    else if (top + rowHeight > element.scrollTop + visibleHeight) element.scrollTop = top + rowHeight - visibleHeight;
+    if (column < 0) return;
+    const visibleWidth = element.clientWidth - frozenWidth;
+    const left = column * columnWidth;
+    if (left < element.scrollLeft) element.scrollLeft = left;
+    else if (left + columnWidth > element.scrollLeft + visibleWidth) element.scrollLeft = left + columnWidth - visibleWidth;
+  }, [ref, rowHeight, columnWidth, headerHeight, frozenWidth]);
+
+  return { ...range, scrollToCell };
+}
@@ -0,0 +1,85 @@
+import type { Building, FloorPlan, PanoramaItem, ProjectState } from "@/types/project";
+
+export const createBuilding = (floors: FloorPlan[] = []): Building => ({
+  id: `building-${Date.now()}`,
+  name: "Building",
+  floors,
+});
+
+/** Names for `count` new levels, continuing the building's numbering and skipping names already used. */
+export const nextLevelNames = (building: Building, count: number): string[] => {
+  const used = new Set(building.floors.map(f => f.level));
+  const names: string[] = [];
+  for (let n = building.floors.length; names.length < count; n++) {
+    const name = n === 0 ? "Ground Floor" : `Level ${n}`;
+    if (used.has(name)) continue;
+    used.add(name);
+    names.push(name);
+  }
+  return names;
+};
+
+export const defaultLevelName = (building: Building) => nextLevelNames(building, 1)[0];
+
+export const getFloor = (building: Building, floorId: string | null | undefined): FloorPlan | null =>
+  building.floors.find(f => f.id === floorId) ?? null;
+
+export const updateFloor = (building: Building, floorId: string, update: (floor: FloorPlan) => FloorPlan): Building => ({
+  ...building,
+  floors: building.floors.map(f => (f.id === floorId ? update(f) : f)),
+});
+
+/** Rename a level. Panoramas pinned to it by its old name move to the new one. */
+export const renameFloor = (state: ProjectState, floorId: string, level: string): ProjectState => {
+  const floor = getFloor(state.building, floorId);
+  if (!floor) return state;
+  const pinned = (pano: PanoramaItem) =>
+    pano.floor === floor.level && state.building.floors.find(f => f.id === pano.floor || f.level === pano.floor) === floor;
+  return {
+    ...state,
+    building: updateFloor(state.building, floorId, f => ({ ...f, level })),
+    panoramas: state.panoramas.map(p => (pinned(p) ? { ...p, floor: level } : p)),
+  };
+};
+
+export const moveFloor = (building: Building, floorId: string, direction: -1 | 1): Building => {
+  const index = building.floors.findIndex(f => f.id === floorId);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= building.floors.length) return building;
+  const floors = [...building.floors];
+  [floors[index], floors[target]] = [floors[target], floors[index]];
+  return { ...building, floors };
+};
+
+/** The floor a floor-plan room (polygon) is drawn on. */
+export const floorForPolygon = (building: Building, polygonId: string): FloorPlan | null =>
+  building.floors.find(f => f.rooms.some(r => r.id === polygonId)) ?? null;
+
+/** The floor holding a room, given a polygon id or the id of a spreadsheet room linked to a polygon. */
+export const floorForRoom = (building: Building, roomId: string): FloorPlan | null =>
+  building.floors.find(f => f.rooms.some(r => r.id === roomId || r.assignedDataId === roomId)) ?? null;
+
+/**
+ * Resolve the floor a panorama belongs to: through the room it is attached to (a polygon,
+ * or a spreadsheet room linked to a polygon), falling back to its `floor` label.
+ */
+export const floorForPanorama = (building: Building, pano: PanoramaItem): FloorPlan | null => {
+  const roomId = pano.roomId ?? pano.polygonId;
+  if (roomId) {
+    const floor = floorForRoom(building, roomId);
+    if (floor) return floor;
+  }
+  if (pano.floor) {
+    return building.floors.find(f => f.id === pano.floor || f.level === pano.floor) ?? null;
+  }
+  return null;
+};
+
+/** Panoramas shown on a floor. Panoramas that cannot be placed on any floor are shown everywhere. */
+export const panoramasOnFloor = (building: Building, panoramas: PanoramaItem[], floorId: string | null): PanoramaItem[] => {
+  if (!floorId) return panoramas;
+  return panoramas.filter(p => {
+    const floor = floorForPanorama(building, p);
+    return !floor || floor.id === floorId;
+  });
+};
@@ -0,0 +1,63 @@
+// Rectangular cell selections and the tab-separated text spreadsheets put on the clipboard.
+
+export interface CellPosition {
+  row: number;
+  column: number;
+}
+
+export interface CellRange {
+  top: number;
+  left: number;
+  bottom: number; // inclusive
+  right: number; // inclusive
+}
+
+export const rangeBetween = (anchor: CellPosition, focus: CellPosition): CellRange => ({
+  top: Math.min(anchor.row, focus.row),
+  left: Math.min(anchor.column, focus.column),
+  bottom: Math.max(anchor.row, focus.row),
+  right: Math.max(anchor.column, focus.column),
+});
+
+export const inRange = (range: CellRange, row: number, column: number) =>
+  row >= range.top && row <= range.bottom && column >= range.left && column <= range.right;
+
+const quote = (value: string) => (/[\t\n\r"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const toTsv = (rows: string[][]) => rows.map(row => row.map(quote).join("\t")).join("\n");
+
+/** Parse clipboard text from Excel, Sheets or this table; quoted cells may hold tabs and newlines. */
+export const parseTsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === "\t") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  // Spreadsheets end the copied block with a newline
+  if (cell !== "" || row.length > 0) rows.push([...row, cell]);
+  return rows;
+};
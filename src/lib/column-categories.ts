@@ -0,0 +1,111 @@
+import type { ColumnCategory, RoomHeaders } from "@/types/project";
+
+// Columns are grouped by rules tried in priority order (the category list order). A column
+// goes to the first category with a matching rule; the first category without rules takes
+// every column no rule matched. Rules test the column code, or the name when a file has no
+// code row, case-insensitively.
+
+export const CATEGORY_COLORS = {
+  primary: { label: "Blue", bg: "bg-primary", text: "text-primary" },
+  "vue-green": { label: "Green", bg: "bg-vue-green", text: "text-vue-green" },
+  "sync-blue": { label: "Teal", bg: "bg-sync-blue", text: "text-sync-blue" },
+  destructive: { label: "Red", bg: "bg-destructive", text: "text-destructive" },
+  purple: { label: "Purple", bg: "bg-purple", text: "text-purple" },
+  amber: { label: "Amber", bg: "bg-amber-500", text: "text-amber-500" },
+  slate: { label: "Grey", bg: "bg-slate-500", text: "text-slate-500" },
+} as const;
+
+export type CategoryColor = keyof typeof CATEGORY_COLORS;
+
+export const categoryColor = (color: string) => CATEGORY_COLORS[color as CategoryColor] ?? CATEGORY_COLORS.slate;
+
+// Service and protection codes are SE_ columns told apart by the system code after it
+const SERVICE_CODES = "WA|GS|GP|RT|SP|SN|ST|VC|LS|TP|AV|CO|P3|PH|SL|EL";
+const PROTECTION_CODES = "FP|FA|SH|SI|AS|ES|CP|DA";
+
+export const DEFAULT_COLUMN_CATEGORIES: ColumnCategory[] = [
+  {
+    id: "basic",
+    name: "Basic Info",
+    color: "primary",
+    icon: "map-pin",
+    matchers: [
+      { type: "contains", pattern: "ROOM" },
+      { type: "contains", pattern: "REF" },
+      { type: "contains", pattern: "DATE" },
+      { type: "regex", pattern: "^(?!.*(BU_|SE_)).*Q0" },
+    ],
+  },
+  { id: "fabric", name: "Fabric & Finishes", color: "vue-green", icon: "wrench", matchers: [{ type: "contains", pattern: "BU_" }] },
+  {
+    id: "fittings",
+    name: "Fittings & Equipment",
+    color: "sync-blue",
+    icon: "settings",
+    matchers: [
+      { type: "contains", pattern: "FE_" },
+      { type: "contains", pattern: "ASSET" },
+    ],
+  },
+  { id: "services", name: "Services (M&E)", color: "sync-blue", icon: "ruler", matchers: [{ type: "regex", pattern: `^(?=.*SE_).*(${SERVICE_CODES})` }] },
+  { id: "protection", name: "Protection & Alarms", color: "destructive", icon: "shield", matchers: [{ type: "regex", pattern: `^(?=.*SE_).*(${PROTECTION_CODES})` }] },
+  { id: "misc", name: "Miscellaneous", color: "purple", icon: "users", matchers: [] },
+];
+
+/** Why a regex rule cannot be used, or null when it compiles. */
+export const regexError = (pattern: string) => {
+  try {
+    new RegExp(pattern, "i");
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : "Invalid pattern";
+  }
+};
+
+const compile = (categories: ColumnCategory[]) =>
+  categories.map(category => ({
+    category,
+    tests: category.matchers
+      .filter(m => m.pattern.trim() !== "" && (m.type !== "regex" || !regexError(m.pattern)))
+      .map(m => {
+        const pattern = m.pattern.trim().toUpperCase();
+        if (m.type === "prefix") return (text: string) => text.startsWith(pattern);
+        if (m.type === "contains") return (text: string) => text.includes(pattern);
+        const regex = new RegExp(m.pattern, "i");
+        return (text: string) => regex.test(text);
+      }),
+  }));
+
+// Holds columns no rule matched when no category catches the rest
+export const UNCATEGORISED: ColumnCategory = { id: "uncategorised", name: "Uncategorised", color: "slate", icon: "tag", matchers: [] };
+
+export interface CategorizedColumns {
+  category: ColumnCategory;
+  columns: number[];
+}
+
+/**
+ * Group every column into its category, keeping category order. `pinned` columns (the room
+ * fields) always go to the first category.
+ */
+export const categorizeColumns = (
+  headers: RoomHeaders,
+  categories: ColumnCategory[],
+  pinned: number[] = []
+): CategorizedColumns[] => {
+  const compiled = compile(categories);
+  const groups = categories.map(category => ({ category, columns: [] as number[] }));
+  const catchAll = compiled.findIndex(c => c.category.matchers.length === 0);
+  const unmatched: number[] = [];
+  const width = Math.max(headers.row1.length, headers.row2.length);
+
+  for (let index = 0; index < width; index++) {
+    const text = String(headers.row2[index] || headers.row1[index] || "").toUpperCase();
+    let target = pinned.includes(index) && groups.length > 0 ? 0 : compiled.findIndex(c => c.tests.some(test => test(text)));
+    if (target < 0) target = catchAll;
+    if (target < 0) unmatched.push(index);
+    else groups[target].columns.push(index);
+  }
+
+  return unmatched.length > 0 ? [...groups, { category: UNCATEGORISED, columns: unmatched }] : groups;
+};
@@ -0,0 +1,209 @@
+import { resolveRoomFields } from "@/lib/room-fields";
+import type { ColumnSchema, ColumnType, RoomHeaders } from "@/types/project";
+
+// Each column has a type, inferred from its values on import and overridable per column.
+// Cells keep whatever the spreadsheet held; the schema decides how they are edited, shown
+// and validated. Empty cells are always valid.
+
+export const COLUMN_TYPES: { value: ColumnType; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "date", label: "Date" },
+  { value: "enum", label: "Choice" },
+  { value: "boolean", label: "Yes/No" },
+  { value: "rag", label: "RAG rating" },
+];
+
+export const RAG_VALUES = ["Red", "Amber", "Green"] as const;
+
+const RAG_ALIASES: Record<string, (typeof RAG_VALUES)[number]> = {
+  R: "Red", RED: "Red", SIGNIFICANT: "Red", POOR: "Red",
+  A: "Amber", AMBER: "Amber", MINOR: "Amber", FAIR: "Amber",
+  G: "Green", GREEN: "Green", GOOD: "Green", NONE: "Green",
+};
+
+const YES = new Set(["YES", "Y", "TRUE"]);
+const NO = new Set(["NO", "N", "FALSE"]);
+
+// Enums are columns that repeat a handful of values
+const MAX_ENUM_OPTIONS = 8;
+const MIN_ENUM_VALUES = 6;
+
+// Share of filled cells that must fit a type for the column to get it; the rest are reported as invalid
+const MIN_TYPE_SHARE = 0.9;
+
+// Excel stores dates as days since 1899-12-30; plausible survey dates fall in this range
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MIN_DATE_SERIAL = 20000; // 1954
+const MAX_DATE_SERIAL = 80000; // 2119
+
+const DEFAULT_SCHEMA: ColumnSchema = { type: "text" };
+
+const text = (value: unknown) => (value === null || value === undefined ? "" : String(value).trim());
+
+export const isEmptyCell = (value: unknown) => text(value) === "";
+
+export const columnSchema = (headers: RoomHeaders, column: number): ColumnSchema => headers.schema?.[column] ?? DEFAULT_SCHEMA;
+
+// A unit must be spaced from the number unless it is a symbol, so codes like "1A" stay text
+const NUMBER_WITH_UNIT = /^(-?\d+(\.\d+)?)(\s*(%|m²|m2|°C)|\s+[a-zA-Z²³°/]+)?$/i;
+
+/**
+ * A number, ignoring a trailing unit ("12.5 m²") and thousands separators ("1,234.5").
+ * A comma followed by one or two digits is a decimal comma ("12,5 m²").
+ */
+export const parseNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  const normalised = text(value)
+    .replace(/,(?=\d{3}(?!\d))/g, "")
+    .replace(/^(-?\d+),(\d{1,2})(?!\d)/, "$1.$2");
+  const match = normalised.match(NUMBER_WITH_UNIT);
+  return match ? parseFloat(match[1]) : null;
+};
+
+export const parseBoolean = (value: unknown): boolean | null => {
+  if (typeof value === "boolean") return value;
+  const upper = text(value).toUpperCase();
+  if (YES.has(upper)) return true;
+  if (NO.has(upper)) return false;
+  return null;
+};
+
+export const parseRag = (value: unknown) => RAG_ALIASES[text(value).toUpperCase()] ?? null;
+
+/** yyyy-mm-dd from an ISO date, a dd/mm/yyyy date or an Excel date serial. */
+export const parseDate = (value: unknown): string | null => {
+  if (typeof value === "number") {
+    if (value < MIN_DATE_SERIAL || value > MAX_DATE_SERIAL) return null;
+    return new Date(EXCEL_EPOCH + Math.round(value) * 86400000).toISOString().slice(0, 10);
+  }
+  const raw = text(value);
+  let match = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const parts = match ? [match[1], match[2], match[3]] : null;
+  match = raw.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/);
+  const [year, month, day] = (parts ?? (match ? [match[3], match[2], match[1]] : [])).map(Number);
+  if (!year) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+const enumMatch = (value: unknown, options: string[] = []) =>
+  options.find(option => option.toLowerCase() === text(value).toLowerCase()) ?? null;
+
+/** Why a cell does not fit its column type, or null when it does. */
+export const validateCell = (value: unknown, schema: ColumnSchema): string | null => {
+  if (isEmptyCell(value)) return null;
+  const shown = `"${text(value)}"`;
+  switch (schema.type) {
+    case "number":
+      return parseNumber(value) === null ? `${shown} is not a number` : null;
+    case "date":
+      return parseDate(value) === null ? `${shown} is not a date` : null;
+    case "boolean":
+      return parseBoolean(value) === null ? `${shown} is not yes or no` : null;
+    case "rag":
+      return parseRag(value) === null ? `${shown} is not a Red/Amber/Green rating` : null;
+    case "enum":
+      return enumMatch(value, schema.options) === null ? `${shown} is not one of ${(schema.options ?? []).join(", ")}` : null;
+    default:
+      return null;
+  }
+};
+
+/** The cell as the table shows it; invalid values are shown as they are. */
+export const formatCell = (value: unknown, schema: ColumnSchema): string => {
+  if (isEmptyCell(value) || validateCell(value, schema)) return text(value);
+  switch (schema.type) {
+    case "number":
+      return schema.unit ? `${parseNumber(value)} ${schema.unit}` : String(parseNumber(value));
+    case "date":
+      return parseDate(value)!;
+    case "boolean":
+      return parseBoolean(value) ? "Yes" : "No";
+    case "rag":
+      return parseRag(value)!;
+    case "enum":
+      return enumMatch(value, schema.options)!;
+    default:
+      return text(value);
+  }
+};
+
+const unitFromHeader = (label: string) => {
+  const match = label.match(/\(([^)]+)\)\s*$/) ?? label.match(/\b(m²|m2|mm|m|kg|kw|°c|%)$/i);
+  return match ? match[1].replace(/^m2$/i, "m²") : undefined;
+};
+
+/**
+ * The most specific type nearly every non-empty value in the column fits, so a few typos show
+ * up as invalid cells instead of turning the column into text.
+ */
+export const inferColumnSchema = (values: unknown[], label: string, isArea = false): ColumnSchema => {
+  const filled = values.filter(value => !isEmptyCell(value));
+  if (filled.length === 0) return DEFAULT_SCHEMA;
+  const most = (test: (value: unknown) => boolean) => filled.filter(test).length >= filled.length * MIN_TYPE_SHARE;
+
+  if (most(value => parseBoolean(value) !== null)) return { type: "boolean" };
+  if (most(value => parseRag(value) !== null)) return { type: "rag" };
+  // Excel dates arrive as serial numbers, so a date-like header wins over number
+  if (/DATE/i.test(label) && most(value => parseDate(value) !== null)) return { type: "date" };
+  if (most(value => typeof value !== "number" && parseDate(value) !== null)) return { type: "date" };
+  if (most(value => parseNumber(value) !== null)) {
+    return { type: "number", unit: isArea ? "m²" : unitFromHeader(label) };
+  }
+  // Options are the values that repeat; one-off values are taken for typos
+  const counts = new Map<string, number>();
+  filled.forEach(value => counts.set(text(value), (counts.get(text(value)) ?? 0) + 1));
+  const options = [...counts.keys()].filter(option => counts.get(option)! > 1);
+  const covered = options.reduce((sum, option) => sum + counts.get(option)!, 0);
+  if (
+    filled.length >= MIN_ENUM_VALUES &&
+    options.length > 0 &&
+    options.length <= MAX_ENUM_OPTIONS &&
+    options.length <= filled.length / 2 &&
+    covered >= filled.length * MIN_TYPE_SHARE
+  ) {
+    return { type: "enum", options: options.sort() };
+  }
+  return DEFAULT_SCHEMA;
+};
+
+/**
+ * Schemas for every column of an import. Types the user set by hand on a column with the
+ * same code (or name) in `previous` are kept. Room ids and names stay text, so codes such
+ * as "001" or "1.10" are shown as written.
+ */
+export const inferColumnSchemas = (headers: RoomHeaders, rows: unknown[][], previous?: RoomHeaders): ColumnSchema[] => {
+  const width = Math.max(headers.row1.length, headers.row2.length);
+  const fields = resolveRoomFields(headers);
+  const key = (h: RoomHeaders, i: number) => text(h.row2[i] || h.row1[i]).toUpperCase();
+  const overrides = new Map<string, ColumnSchema>();
+  previous?.schema?.forEach((schema, i) => {
+    if (schema?.overridden && key(previous, i)) overrides.set(key(previous, i), schema);
+  });
+
+  return Array.from({ length: width }, (_, column) =>
+    overrides.get(key(headers, column)) ??
+    (column === fields.id || column === fields.name
+      ? DEFAULT_SCHEMA
+      : inferColumnSchema(rows.map(row => row[column]), text(headers.row1[column] || headers.row2[column]), column === fields.area))
+  );
+};
+
+export interface CellIssue {
+  row: number; // 1-based data row
+  column: number;
+  message: string;
+}
+
+export const validateRows = (rows: unknown[][], schema: ColumnSchema[] = []): CellIssue[] => {
+  const issues: CellIssue[] = [];
+  rows.forEach((row, index) => {
+    schema.forEach((columnSchema, column) => {
+      const message = columnSchema && validateCell(row[column], columnSchema);
+      if (message) issues.push({ row: index + 1, column, message });
+    });
+  });
+  return issues;
+};
@@ -0,0 +1,460 @@
+// DXF floor plan import: reads ASCII DXF exports from CAD, turns closed polylines on one layer
+// into room outlines and renders everything else as the plan's background raster.
+
+import { suggestFromLabels } from "@/lib/plan-labels";
+import type { PlanLabel, Point } from "@/types/project";
+
+export interface DxfPath {
+  kind: "path";
+  layer: string;
+  points: Point[];
+  closed: boolean;
+}
+
+export interface DxfText {
+  kind: "text";
+  layer: string;
+  text: string;
+  position: Point; // centre of the text
+  height: number;
+  rotation: number; // degrees, counter-clockwise
+}
+
+export type DxfEntity = DxfPath | DxfText;
+
+/** A parsed drawing in drawing units, y up, with block references already expanded. */
+export interface DxfDrawing {
+  insUnits: number; // $INSUNITS; 0 when the drawing doesn't say
+  entities: DxfEntity[];
+}
+
+export interface DxfLayerSummary {
+  name: string;
+  closedPaths: number;
+}
+
+export interface DxfImportOptions {
+  level: string;
+  roomLayer: string;
+  metresPerUnit: number;
+}
+
+export interface DxfFloorPlan {
+  blob: Blob;
+  width: number;
+  height: number;
+  pixelsPerMetre: number;
+  rooms: { name: string; polygon: Point[] }[];
+  labels: PlanLabel[];
+}
+
+/** Drawing units that map to metres, keyed by their $INSUNITS code. */
+export const DXF_UNITS: { code: number; label: string; metres: number }[] = [
+  { code: 4, label: "Millimetres", metres: 0.001 },
+  { code: 5, label: "Centimetres", metres: 0.01 },
+  { code: 6, label: "Metres", metres: 1 },
+  { code: 1, label: "Inches", metres: 0.0254 },
+  { code: 2, label: "Feet", metres: 0.3048 },
+];
+
+// Architectural drawings without units are almost always in millimetres
+export const DEFAULT_DXF_UNIT = 4;
+
+// Longest side of the background raster, in pixels
+const MAX_RASTER_SIZE = 4000;
+
+// Straight segments per full turn when flattening arcs and circles
+const ARC_SEGMENTS = 64;
+
+// Nested block references deeper than this are ignored
+const MAX_BLOCK_DEPTH = 8;
+
+const ROOM_LAYER_PATTERN = /ROOM|SPACE|AREA/i;
+
+export const isDxfFile = (file: File) => file.name.toLowerCase().endsWith(".dxf");
+
+// ---------------------------------------------------------------------------------------------
+// Parsing: the file is a flat list of (group code, value) pairs; code 0 starts each record
+
+interface DxfRecord {
+  type: string;
+  pairs: [number, string][];
+}
+
+const readRecords = (text: string): DxfRecord[] => {
+  if (text.startsWith("AutoCAD Binary DXF")) {
+    throw new Error("Binary DXF files aren't supported; export the drawing as ASCII DXF");
+  }
+  const lines = text.split(/\r?\n/);
+  const records: DxfRecord[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim(), 10);
+    if (Number.isNaN(code)) throw new Error(`Not a DXF file: unexpected "${lines[i].trim()}" on line ${i + 1}`);
+    const value = lines[i + 1].trim();
+    if (code === 0) records.push({ type: value, pairs: [] });
+    else records[records.length - 1]?.pairs.push([code, value]);
+  }
+  return records;
+};
+
+const value = (record: DxfRecord, code: number) => record.pairs.find(([c]) => c === code)?.[1];
+
+const number = (record: DxfRecord, code: number, fallback = 0) => {
+  const parsed = parseFloat(value(record, code) ?? "");
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+// Affine transform [a, b, c, d, e, f]: x' = a·x + c·y + e, y' = b·x + d·y + f
+type Transform = [number, number, number, number, number, number];
+
+const IDENTITY: Transform = [1, 0, 0, 1, 0, 0];
+
+const apply = ([a, b, c, d, e, f]: Transform, p: Point): Point => ({ x: a * p.x + c * p.y + e, y: b * p.x + d * p.y + f });
+
+const compose = (outer: Transform, inner: Transform): Transform => {
+  const [a1, b1, c1, d1, e1, f1] = outer;
+  const [a2, b2, c2, d2, e2, f2] = inner;
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1,
+  ];
+};
+
+const arcPoints = (centre: Point, radius: number, startDegrees: number, endDegrees: number): Point[] => {
+  let sweep = endDegrees - startDegrees;
+  if (sweep <= 0) sweep += 360;
+  const steps = Math.max(2, Math.ceil((ARC_SEGMENTS * sweep) / 360));
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = ((startDegrees + (sweep * i) / steps) * Math.PI) / 180;
+    return { x: centre.x + radius * Math.cos(angle), y: centre.y + radius * Math.sin(angle) };
+  });
+};
+
+/** Points along a polyline segment whose bulge (tan of a quarter of the arc angle) curves it. */
+const bulgePoints = (a: Point, b: Point, bulge: number): Point[] => {
+  if (!bulge) return [a];
+  const chord = Math.hypot(b.x - a.x, b.y - a.y);
+  const angle = 4 * Math.atan(bulge);
+  const radius = chord / (2 * Math.sin(angle / 2));
+  // Centre sits on the perpendicular bisector of the chord
+  const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  const offset = radius * Math.cos(angle / 2);
+  const normal = { x: -(b.y - a.y) / chord, y: (b.x - a.x) / chord };
+  const centre = { x: mid.x + normal.x * offset, y: mid.y + normal.y * offset };
+  const start = Math.atan2(a.y - centre.y, a.x - centre.x);
+  const steps = Math.max(2, Math.ceil((ARC_SEGMENTS * Math.abs(angle)) / (2 * Math.PI)));
+  return Array.from({ length: steps }, (_, i) => {
+    const t = start + (angle * i) / steps;
+    return { x: centre.x + Math.abs(radius) * Math.cos(t), y: centre.y + Math.abs(radius) * Math.sin(t) };
+  });
+};
+
+const vertexPath = (vertices: { point: Point; bulge: number }[], closed: boolean): Point[] =>
+  vertices.flatMap((v, i) => {
+    const next = vertices[i + 1] ?? (closed ? vertices[0] : null);
+    return next ? bulgePoints(v.point, next.point, v.bulge) : [v.point];
+  });
+
+const lwPolylineVertices = (record: DxfRecord) => {
+  const vertices: { point: Point; bulge: number }[] = [];
+  record.pairs.forEach(([code, raw]) => {
+    const n = parseFloat(raw);
+    if (code === 10) vertices.push({ point: { x: n, y: 0 }, bulge: 0 });
+    else if (code === 20 && vertices.length) vertices[vertices.length - 1].point.y = n;
+    else if (code === 42 && vertices.length) vertices[vertices.length - 1].bulge = n;
+  });
+  return vertices;
+};
+
+// MTEXT inline formatting such as {\fArial|b0;Office} or \P for a new paragraph
+const plainMText = (raw: string) =>
+  raw
+    .replace(/\\P/g, "\n")
+    .replace(/\\[ACFHQTW][^;]*;/gi, "")
+    .replace(/\\p[^;]*;/g, "")
+    .replace(/\\[LlOoKk]/g, "")
+    .replace(/\\S([^;]*);/g, (_, stacked: string) => stacked.replace(/[#^]/g, "/"))
+    .replace(/[{}]/g, "")
+    .replace(/%%[cdp]/gi, "");
+
+/** Centre of a text block from its anchor; `column` 0–2 is left to right, `row` 0–2 top to bottom. */
+const textCentre = (anchor: Point, width: number, height: number, column: number, row: number, rotation: number): Point => {
+  const dx = (0.5 - column / 2) * width;
+  const dy = (row / 2 - 0.5) * height;
+  const angle = (rotation * Math.PI) / 180;
+  return {
+    x: anchor.x + dx * Math.cos(angle) - dy * Math.sin(angle),
+    y: anchor.y + dx * Math.sin(angle) + dy * Math.cos(angle),
+  };
+};
+
+// Text widths aren't stored; this is a typical average character width for CAD fonts
+const CHARACTER_WIDTH = 0.6;
+
+const readText = (record: DxfRecord, layer: string): DxfText | null => {
+  const height = number(record, 40, 1);
+  const rotation = number(record, 50);
+  if (record.type === "TEXT") {
+    const text = plainMText(value(record, 1) ?? "").trim();
+    if (!text) return null;
+    // Unaligned text anchors at the left of its baseline, aligned text at its alignment point
+    const horizontal = number(record, 72);
+    const vertical = number(record, 73);
+    const start = { x: number(record, 10), y: number(record, 20) };
+    const end = value(record, 11) !== undefined ? { x: number(record, 11), y: number(record, 21) } : start;
+    let centre: Point;
+    if (horizontal === 3 || horizontal === 5) {
+      // Aligned and fit text run between the two points
+      centre = textCentre({ x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 }, 0, height, 1, 2, rotation);
+    } else if (horizontal === 4) {
+      centre = end;
+    } else {
+      const aligned = horizontal !== 0 || vertical !== 0;
+      const row = aligned ? [2, 2, 1, 0][vertical] ?? 2 : 2;
+      centre = textCentre(aligned ? end : start, text.length * height * CHARACTER_WIDTH, height, aligned ? horizontal : 0, row, rotation);
+    }
+    return { kind: "text", layer, text, position: centre, height, rotation };
+  }
+
+  const raw = record.pairs.filter(([code]) => code === 3 || code === 1).map(([, v]) => v).join("");
+  const lines = plainMText(raw).split("\n").map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0) return null;
+  const attachment = Math.min(Math.max(number(record, 71, 1), 1), 9) - 1;
+  const width = Math.max(...lines.map(line => line.length)) * height * CHARACTER_WIDTH;
+  // CAD exporters write the MTEXT rotation in degrees, like TEXT; a direction vector, when present, wins
+  const direction = value(record, 11) !== undefined ? (Math.atan2(number(record, 21), number(record, 11)) * 180) / Math.PI : rotation;
+  const anchor = { x: number(record, 10), y: number(record, 20) };
+  const centre = textCentre(anchor, width, lines.length * height * 1.4, attachment % 3, Math.floor(attachment / 3), direction);
+  return { kind: "text", layer, text: lines.join(" "), position: centre, height, rotation: direction };
+};
+
+interface BlockDefinition {
+  base: Point;
+  records: DxfRecord[];
+}
+
+const readEntities = (
+  records: DxfRecord[],
+  blocks: Map<string, BlockDefinition>,
+  transform: Transform,
+  parentLayer: string | null,
+  depth: number
+): DxfEntity[] => {
+  const entities: DxfEntity[] = [];
+  const scale = Math.sqrt(Math.abs(transform[0] * transform[3] - transform[1] * transform[2]));
+  const turn = (Math.atan2(transform[1], transform[0]) * 180) / Math.PI;
+  const path = (layer: string, points: Point[], closed: boolean) => {
+    if (points.length >= 2) entities.push({ kind: "path", layer, points: points.map(p => apply(transform, p)), closed });
+  };
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    // Entities on layer 0 inside a block take the layer of the block reference
+    const ownLayer = value(record, 8) ?? "0";
+    const layer = ownLayer === "0" && parentLayer ? parentLayer : ownLayer;
+
+    switch (record.type) {
+      case "LINE":
+        path(layer, [{ x: number(record, 10), y: number(record, 20) }, { x: number(record, 11), y: number(record, 21) }], false);
+        break;
+      case "LWPOLYLINE": {
+        const closed = (number(record, 70) & 1) === 1;
+        path(layer, vertexPath(lwPolylineVertices(record), closed), closed);
+        break;
+      }
+      case "POLYLINE": {
+        // Old-style polylines list their corners as VERTEX records up to SEQEND
+        const closed = (number(record, 70) & 1) === 1;
+        const vertices: { point: Point; bulge: number }[] = [];
+        while (records[i + 1]?.type === "VERTEX") {
+          i++;
+          vertices.push({ point: { x: number(records[i], 10), y: number(records[i], 20) }, bulge: number(records[i], 42) });
+        }
+        if (records[i + 1]?.type === "SEQEND") i++;
+        path(layer, vertexPath(vertices, closed), closed);
+        break;
+      }
+      case "CIRCLE":
+        path(layer, arcPoints({ x: number(record, 10), y: number(record, 20) }, number(record, 40), 0, 360).slice(0, -1), true);
+        break;
+      case "ARC":
+        path(layer, arcPoints({ x: number(record, 10), y: number(record, 20) }, number(record, 40), number(record, 50), number(record, 51)), false);
+        break;
+      case "TEXT":
+      case "MTEXT": {
+        const text = readText(record, layer);
+        if (text) {
+          entities.push({
+            ...text,
+            position: apply(transform, text.position),
+            height: text.height * scale,
+            rotation: text.rotation + turn,
+          });
+        }
+        break;
+      }
+      case "INSERT": {
+        const block = blocks.get(value(record, 2) ?? "");
+        if (!block || depth >= MAX_BLOCK_DEPTH) break;
+        const sx = number(record, 41, 1);
+        const sy = number(record, 42, 1);
+        const angle = (number(record, 50) * Math.PI) / 180;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        // Move the block's base point to the origin, scale, rotate, then move to the insertion point
+        const local: Transform = [
+          sx * cos,
+          sx * sin,
+          -sy * sin,
+          sy * cos,
+          number(record, 10) - (sx * cos * block.base.x - sy * sin * block.base.y),
+          number(record, 20) - (sx * sin * block.base.x + sy * cos * block.base.y),
+        ];
+        entities.push(...readEntities(block.records, blocks, compose(transform, local), layer, depth + 1));
+        break;
+      }
+    }
+  }
+  return entities;
+};
+
+export const parseDxf = (text: string): DxfDrawing => {
+  const records = readRecords(text);
+  const blocks = new Map<string, BlockDefinition>();
+  const entityRecords: DxfRecord[] = [];
+  let insUnits = 0;
+  let section = "";
+  let block: (BlockDefinition & { name: string }) | null = null;
+
+  records.forEach(record => {
+    if (record.type === "SECTION") {
+      section = value(record, 2) ?? "";
+      if (section === "HEADER") {
+        const index = record.pairs.findIndex(([code, v]) => code === 9 && v === "$INSUNITS");
+        if (index >= 0) insUnits = parseInt(record.pairs[index + 1]?.[1] ?? "0", 10) || 0;
+      }
+    } else if (record.type === "ENDSEC") {
+      section = "";
+    } else if (section === "BLOCKS") {
+      if (record.type === "BLOCK") {
+        block = { name: value(record, 2) ?? "", base: { x: number(record, 10), y: number(record, 20) }, records: [] };
+      } else if (record.type === "ENDBLK") {
+        if (block) blocks.set(block.name, block);
+        block = null;
+      } else {
+        block?.records.push(record);
+      }
+    } else if (section === "ENTITIES") {
+      entityRecords.push(record);
+    }
+  });
+
+  const entities = readEntities(entityRecords, blocks, IDENTITY, null, 0);
+  if (entities.length === 0) throw new Error("The DXF file has no drawing entities");
+  return { insUnits, entities };
+};
+
+// ---------------------------------------------------------------------------------------------
+// Import
+
+const isRoomOutline = (path: DxfPath, layer: string) => path.layer === layer && path.closed && path.points.length >= 3;
+
+/** Layers holding closed outlines, most likely room layer first. */
+export const dxfRoomLayers = (drawing: DxfDrawing): DxfLayerSummary[] => {
+  const counts = new Map<string, number>();
+  drawing.entities.forEach(entity => {
+    if (entity.kind === "path" && entity.closed) counts.set(entity.layer, (counts.get(entity.layer) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([name, closedPaths]) => ({ name, closedPaths }))
+    .sort((a, b) =>
+      Number(ROOM_LAYER_PATTERN.test(b.name)) - Number(ROOM_LAYER_PATTERN.test(a.name)) || b.closedPaths - a.closedPaths
+    );
+};
+
+export const metresPerDxfUnit = (insUnits: number) =>
+  (DXF_UNITS.find(unit => unit.code === insUnits) ?? DXF_UNITS.find(unit => unit.code === DEFAULT_DXF_UNIT)!).metres;
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Failed to encode canvas"))), "image/png")
+  );
+
+/**
+ * Render the drawing to a raster and pull out its rooms. Room outlines on `roomLayer` become
+ * polygons named after the text inside them; the rest of the geometry is drawn as the background.
+ */
+export const importDxfFloorPlan = async (drawing: DxfDrawing, options: DxfImportOptions): Promise<DxfFloorPlan> => {
+  // Large drawings have too many points to spread into Math.min
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  drawing.entities.forEach(entity => {
+    (entity.kind === "path" ? entity.points : [entity.position]).forEach(p => {
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+    });
+  });
+  const extent = Math.max(maxX - minX, maxY - minY) || 1;
+  const pixelsPerUnit = MAX_RASTER_SIZE / (extent * 1.04);
+  const margin = extent * 0.02 * pixelsPerUnit;
+  // Drawing y runs up, image y runs down
+  const toPixels = (p: Point): Point => ({ x: (p.x - minX) * pixelsPerUnit + margin, y: (maxY - p.y) * pixelsPerUnit + margin });
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil((maxX - minX) * pixelsPerUnit + margin * 2);
+  canvas.height = Math.ceil((maxY - minY) * pixelsPerUnit + margin * 2);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.strokeStyle = "#1f2937";
+  ctx.fillStyle = "#1f2937";
+  ctx.lineWidth = 1;
+
+  const labels: PlanLabel[] = [];
+  const outlines: Point[][] = [];
+  drawing.entities.forEach(entity => {
+    if (entity.kind === "text") {
+      const position = toPixels(entity.position);
+      labels.push({ text: entity.text, position });
+      const size = entity.height * pixelsPerUnit;
+      if (size < 3) return;
+      ctx.save();
+      ctx.translate(position.x, position.y);
+      ctx.rotate((-entity.rotation * Math.PI) / 180);
+      ctx.font = `${size}px sans-serif`;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText(entity.text, 0, 0);
+      ctx.restore();
+      return;
+    }
+    if (isRoomOutline(entity, options.roomLayer)) {
+      outlines.push(entity.points.map(toPixels));
+      return;
+    }
+    ctx.beginPath();
+    entity.points.map(toPixels).forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    if (entity.closed) ctx.closePath();
+    ctx.stroke();
+  });
+
+  const rooms = outlines.map((polygon, index) => ({
+    name: suggestFromLabels(polygon, labels)?.name || `Room ${index + 1}`,
+    polygon,
+  }));
+
+  return {
+    blob: await canvasToBlob(canvas),
+    width: canvas.width,
+    height: canvas.height,
+    pixelsPerMetre: pixelsPerUnit / options.metresPerUnit,
+    rooms,
+    labels,
+  };
+};
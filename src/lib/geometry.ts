@@ -0,0 +1,80 @@
+import type { Point } from "@/types/project";
+
+export const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+/** Unsigned polygon area (shoelace formula), in squared input units. */
+export const polygonArea = (polygon: Point[]) => {
+  if (polygon.length < 3) return 0;
+  let sum = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+};
+
+/** Length of the closed polygon outline, in input units. */
+export const polygonPerimeter = (polygon: Point[]) => {
+  if (polygon.length < 2) return 0;
+  let sum = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    sum += distance(polygon[i], polygon[(i + 1) % polygon.length]);
+  }
+  return sum;
+};
+
+export interface RoomMeasurements {
+  area: number; // m²
+  perimeter: number; // m
+}
+
+/** Real-world area and perimeter of a polygon drawn in image pixels. */
+export const measurePolygon = (polygon: Point[], pixelsPerMetre: number): RoomMeasurements => ({
+  area: polygonArea(polygon) / (pixelsPerMetre * pixelsPerMetre),
+  perimeter: polygonPerimeter(polygon) / pixelsPerMetre,
+});
+
+// Plan bearings are degrees clockwise from the top of the plan image. A panorama's
+// yawOffset is the viewer yaw that faces the top of the plan, so yaw = bearing + yawOffset.
+
+/** Wraps an angle into [-180, 180). */
+export const normalizeDegrees = (degrees: number) => ((((degrees + 180) % 360) + 360) % 360) - 180;
+
+/** Bearing from one plan point to another, in [0, 360). */
+export const bearingBetween = (from: Point, to: Point) =>
+  ((Math.atan2(to.x - from.x, from.y - to.y) * 180) / Math.PI + 360) % 360;
+
+export const yawToBearing = (yaw: number, yawOffset = 0) => (normalizeDegrees(yaw - yawOffset) + 360) % 360;
+
+export const bearingToYaw = (bearing: number, yawOffset = 0) => normalizeDegrees(bearing + yawOffset);
+
+/** Ray-casting point-in-polygon test. */
+export const pointInPolygon = (point: Point, polygon: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/** The point on segment a–b nearest to `point`. */
+export const closestPointOnSegment = (point: Point, a: Point, b: Point): Point => {
+  const lengthSq = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+  if (lengthSq === 0) return a;
+  const t = Math.max(0, Math.min(1, ((point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y)) / lengthSq));
+  return { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) };
+};
+
+export const distanceToSegment = (point: Point, a: Point, b: Point) => distance(point, closestPointOnSegment(point, a, b));
+
+/** True when any vertex of either polygon lies within `tolerance` of the other's outline. */
+export const polygonsTouch = (a: Point[], b: Point[], tolerance: number) => {
+  const near = (points: Point[], outline: Point[]) =>
+    points.some(p => outline.some((q, i) => distanceToSegment(p, q, outline[(i + 1) % outline.length]) <= tolerance));
+  return near(a, b) || near(b, a);
+};
@@ -0,0 +1,118 @@
+import { detectRoomFields } from "@/lib/room-fields";
+import type { RoomFieldMap, RoomHeaders } from "@/types/project";
+
+// Where the headers sit in a client's spreadsheet and which columns hold the room fields.
+// Layouts can be saved as named templates and are recognised again by their header row.
+
+export interface ImportLayout {
+  headerRow: number; // 0-based row of the column names
+  headerRowCount: 1 | 2; // 2 when a row of column codes follows the names
+  fields: RoomFieldMap;
+}
+
+export interface ImportTemplate extends ImportLayout {
+  name: string;
+  signature: string; // the header row, normalised, to recognise the client's files
+}
+
+const STORAGE_KEY = 'import-templates';
+// Banner rows above the headers rarely run longer than this
+const HEADER_SEARCH_ROWS = 15;
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+
+const filledCount = (row: unknown[] = []) => row.filter(cell => text(cell) !== '').length;
+
+const looksLikeCodes = (row: unknown[] = []) => {
+  const cells = row.map(text).filter(Boolean);
+  // Codes are upper case identifiers such as ROOM_REF or Q01; names and data have lower case or plain numbers
+  const codes = cells.filter(cell => /^[A-Z0-9_.-]+$/.test(cell) && /[A-Z]/.test(cell));
+  return cells.length > 0 && codes.length / cells.length >= 0.8;
+};
+
+const signatureOf = (raw: unknown[][], headerRow: number) =>
+  (raw[headerRow] ?? []).map(cell => text(cell).toUpperCase()).join('|');
+
+/** Guess the layout: the fullest row near the top holds the names, an all-code row below it the codes. */
+export const detectImportLayout = (raw: unknown[][]): ImportLayout => {
+  let headerRow = 0;
+  raw.slice(0, HEADER_SEARCH_ROWS).forEach((row, index) => {
+    if (filledCount(row) > filledCount(raw[headerRow])) headerRow = index;
+  });
+  const next = raw[headerRow + 1];
+  const headerRowCount = next && filledCount(next) >= filledCount(raw[headerRow]) / 2 && looksLikeCodes(next) && !looksLikeCodes(raw[headerRow]) ? 2 : 1;
+  const { headers } = applyImportLayout(raw, { headerRow, headerRowCount, fields: { id: 0, name: 1 } });
+  const detected = detectRoomFields(headers);
+  return {
+    headerRow,
+    headerRowCount,
+    fields: {
+      id: detected.id,
+      name: detected.name,
+      level: detected.level >= 0 ? detected.level : undefined,
+      area: detected.area >= 0 ? detected.area : undefined,
+    },
+  };
+};
+
+/**
+ * The row of another sheet that holds the same column names as `headers`, for workbooks whose
+ * sheets have banners of different heights. Falls back to `fallback` when no row shares a name.
+ */
+export const findMatchingHeaderRow = (raw: unknown[][], headers: RoomHeaders, fallback: number) => {
+  const names = new Set(headers.row1.map(name => text(name).toUpperCase()).filter(Boolean));
+  let best = fallback;
+  let bestCount = 0;
+  raw.slice(0, HEADER_SEARCH_ROWS).forEach((row, index) => {
+    const count = row.filter(cell => names.has(text(cell).toUpperCase())).length;
+    if (count > bestCount) {
+      best = index;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/** Headers (with the field mapping) and data rows for a layout. */
+export const applyImportLayout = (raw: unknown[][], layout: ImportLayout): { headers: RoomHeaders; rows: unknown[][] } => {
+  const names = raw[layout.headerRow] ?? [];
+  const codes = layout.headerRowCount === 2 ? raw[layout.headerRow + 1] ?? [] : [];
+  const width = Math.max(names.length, codes.length);
+  return {
+    headers: {
+      row1: Array.from({ length: width }, (_, i) => text(names[i])),
+      row2: Array.from({ length: width }, (_, i) => text(codes[i])),
+      fields: layout.fields,
+    },
+    rows: raw.slice(layout.headerRow + layout.headerRowCount),
+  };
+};
+
+export const loadImportTemplates = (): ImportTemplate[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.warn('Failed to load import templates from localStorage');
+    return [];
+  }
+};
+
+const storeTemplates = (templates: ImportTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  return templates;
+};
+
+/** Save a layout under a client name, replacing any template with the same name. */
+export const saveImportTemplate = (name: string, layout: ImportLayout, raw: unknown[][]) =>
+  storeTemplates([
+    ...loadImportTemplates().filter(t => t.name !== name),
+    { ...layout, name, signature: signatureOf(raw, layout.headerRow) },
+  ]);
+
+export const deleteImportTemplate = (name: string) =>
+  storeTemplates(loadImportTemplates().filter(t => t.name !== name));
+
+/** The saved template whose header row matches this file, if any. */
+export const findImportTemplate = (raw: unknown[][], templates: ImportTemplate[]) =>
+  templates.find(t => t.signature !== '' && signatureOf(raw, t.headerRow) === t.signature) ?? null;
@@ -0,0 +1,54 @@
+// Bundled Pannellum. The copy shipped inside pannellum-react registers `window.libpannellum`
+// and `window.pannellum` when imported, so the viewer works without a network connection.
+
+import "pannellum-react/es/pannellum/js/libpannellum.js";
+import "pannellum-react/es/pannellum/js/pannellum.js";
+import "pannellum-react/es/pannellum/css/pannellum.css";
+
+export interface PannellumHotSpot {
+  id?: string;
+  pitch: number;
+  yaw: number;
+  type: "info" | "scene";
+  text?: string;
+  cssClass?: string;
+  clickHandlerFunc?: (event: MouseEvent, args: unknown) => void;
+  clickHandlerArgs?: unknown;
+}
+
+export interface PannellumConfig {
+  type: "equirectangular";
+  panorama: string;
+  autoLoad?: boolean;
+  showZoomCtrl?: boolean;
+  showFullscreenCtrl?: boolean;
+  mouseZoom?: boolean;
+  doubleClickZoom?: boolean;
+  keyboardZoom?: boolean;
+  hfov?: number;
+  pitch?: number;
+  yaw?: number;
+  minHfov?: number;
+  maxHfov?: number;
+  hotSpots?: PannellumHotSpot[];
+}
+
+export interface PannellumViewer {
+  destroy: () => void;
+  on: (event: string, handler: (...args: unknown[]) => void) => PannellumViewer;
+  getYaw: () => number;
+  getPitch: () => number;
+  getHfov: () => number;
+  setYaw: (yaw: number) => PannellumViewer;
+  setPitch: (pitch: number) => PannellumViewer;
+  setHfov: (hfov: number) => PannellumViewer;
+  mouseEventToCoords: (event: MouseEvent) => [number, number];
+  addHotSpot: (hotSpot: PannellumHotSpot) => PannellumViewer;
+  removeHotSpot: (id: string) => boolean;
+}
+
+interface PannellumApi {
+  viewer: (container: HTMLElement | string, config: PannellumConfig) => PannellumViewer;
+}
+
+export const pannellum = (window as unknown as { pannellum: PannellumApi }).pannellum;
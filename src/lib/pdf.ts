@@ -0,0 +1,151 @@
+// PDF floor plan rasterisation helpers built on pdf.js.
+// pdf.js and its worker are bundled so PDFs can be opened without a network connection.
+
+import { GlobalWorkerOptions, getDocument, type PDFDocumentProxy, type PDFPageProxy, type PageViewport } from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import type { PlanLabel } from "@/types/project";
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Browsers refuse to allocate canvases much larger than this
+const MAX_CANVAS_PIXELS = 64_000_000;
+
+export const PDF_DPI_OPTIONS = [100, 150, 200, 300];
+export const DEFAULT_PDF_DPI = 200;
+
+export interface RasterizeOptions {
+  dpi: number;
+  cropToDrawing: boolean;
+}
+
+export interface RasterizedPage {
+  blob: Blob;
+  width: number;
+  height: number;
+  labels: PlanLabel[]; // the page's text, in raster pixels
+}
+
+export type PdfDocument = PDFDocumentProxy;
+
+export const isPdfFile = (file: File) =>
+  file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+
+export const loadPdfDocument = async (file: Blob): Promise<PDFDocumentProxy> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  return getDocument({ data }).promise;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type = "image/png"): Promise<Blob> =>
+  new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Failed to encode canvas"))), type)
+  );
+
+const renderPageToCanvas = async (page: PDFPageProxy, scale: number): Promise<HTMLCanvasElement> => {
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  // Paint white first so transparent PDFs don't end up with a transparent plan
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvas, canvasContext: ctx, viewport }).promise;
+  return canvas;
+};
+
+/** Small JPEG preview of a page, `maxSize` pixels on its longest side. */
+export const renderPageThumbnail = async (pdf: PDFDocumentProxy, pageNumber: number, maxSize = 200): Promise<string> => {
+  const page = await pdf.getPage(pageNumber);
+  const base = page.getViewport({ scale: 1 });
+  const canvas = await renderPageToCanvas(page, maxSize / Math.max(base.width, base.height));
+  return URL.createObjectURL(await canvasToBlob(canvas, "image/jpeg"));
+};
+
+/**
+ * Bounding box of the non-white pixels on a canvas, padded by `marginRatio` of the page.
+ * Returns null when the page is blank.
+ */
+export const findDrawingBounds = (canvas: HTMLCanvasElement, threshold = 245, marginRatio = 0.01) => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  const { width, height } = canvas;
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i] < threshold || data[i + 1] < threshold || data[i + 2] < threshold) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return null;
+
+  const margin = Math.round(Math.max(width, height) * marginRatio);
+  const x = Math.max(0, minX - margin);
+  const y = Math.max(0, minY - margin);
+  return {
+    x,
+    y,
+    width: Math.min(width, maxX + margin + 1) - x,
+    height: Math.min(height, maxY + margin + 1) - y,
+  };
+};
+
+const cropCanvas = (canvas: HTMLCanvasElement, bounds: { x: number; y: number; width: number; height: number }) => {
+  const cropped = document.createElement("canvas");
+  cropped.width = bounds.width;
+  cropped.height = bounds.height;
+  const ctx = cropped.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+  ctx.drawImage(canvas, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+  return cropped;
+};
+
+/** Text runs on the page, each placed at its centre in `viewport` pixels. Scanned pages have none. */
+const extractPageLabels = async (page: PDFPageProxy, viewport: PageViewport): Promise<PlanLabel[]> => {
+  const content = await page.getTextContent();
+  return content.items.flatMap(item => {
+    if (!("str" in item) || !item.str.trim()) return [];
+    // The transform maps text space to PDF space: (a, b) runs along the text, (c, d) up it
+    const [a, b, c, d, e, f] = item.transform as number[];
+    const along = Math.hypot(a, b) || 1;
+    const up = Math.hypot(c, d) || 1;
+    const height = item.height || up;
+    const [x, y] = viewport.convertToViewportPoint(
+      e + (a / along) * item.width / 2 + (c / up) * height / 2,
+      f + (b / along) * item.width / 2 + (d / up) * height / 2
+    );
+    return [{ text: item.str.trim(), position: { x, y } }];
+  });
+};
+
+export const rasterizePdfPage = async (pdf: PDFDocumentProxy, pageNumber: number, options: RasterizeOptions): Promise<RasterizedPage> => {
+  const page = await pdf.getPage(pageNumber);
+  const base = page.getViewport({ scale: 1 });
+  let scale = options.dpi / 72;
+  const pixels = base.width * base.height * scale * scale;
+  if (pixels > MAX_CANVAS_PIXELS) {
+    scale *= Math.sqrt(MAX_CANVAS_PIXELS / pixels);
+    console.warn(`Page ${pageNumber} rendered at ${Math.round(scale * 72)} DPI to stay within canvas limits`);
+  }
+
+  let canvas = await renderPageToCanvas(page, scale);
+  let labels = await extractPageLabels(page, page.getViewport({ scale }));
+  if (options.cropToDrawing) {
+    const bounds = findDrawingBounds(canvas);
+    if (bounds) {
+      canvas = cropCanvas(canvas, bounds);
+      labels = labels.map(label => ({ ...label, position: { x: label.position.x - bounds.x, y: label.position.y - bounds.y } }));
+    }
+  }
+  const { width, height } = canvas;
+  labels = labels.filter(({ position: { x, y } }) => x >= 0 && y >= 0 && x < width && y < height);
+
+  return { blob: await canvasToBlob(canvas), width, height, labels };
+};
@@ -0,0 +1,246 @@
+import { parseRag } from "@/lib/column-schema";
+import { measurePolygon, polygonArea } from "@/lib/geometry";
+import { panoramaRoomKey } from "@/lib/room-links";
+import type { FloorPlan, FloorPlanRoom, PanoramaItem, Point, Room, RoomHeaders } from "@/types/project";
+
+// Room geometry for CAFM and GIS tools (GeoJSON) and for reports (SVG).
+// GeoJSON coordinates are plan-local with y up: the origin is the bottom-left corner of the plan
+// image, in metres once the level is calibrated, otherwise in image pixels.
+
+export type GeoJsonUnits = "metres" | "pixels";
+
+type Position = [number, number];
+
+interface GeoJsonFeature {
+  type: "Feature";
+  id?: string | number;
+  geometry:
+    | { type: "Polygon"; coordinates: Position[][] }
+    | { type: "MultiPolygon"; coordinates: Position[][][] }
+    | { type: "Point"; coordinates: Position };
+  properties: Record<string, unknown> | null;
+}
+
+export interface RoomsFeatureCollection {
+  type: "FeatureCollection";
+  plan: { level: string; units: GeoJsonUnits; width: number; height: number; pixelsPerMetre?: number };
+  features: GeoJsonFeature[];
+}
+
+export interface ExportSchedule {
+  rooms: Room[];
+  headers: RoomHeaders;
+}
+
+export interface ImportedRoom {
+  name: string;
+  polygon: Point[];
+  level?: string;
+  rag?: FloorPlanRoom["rag"];
+}
+
+const RAG_VALUES: FloorPlanRoom["rag"][] = ["Minimal", "Minor", "Significant"];
+
+// Spreadsheet RAG ratings in the plan's terms
+const RAG_FROM_RATING: Record<string, FloorPlanRoom["rag"]> = { Red: "Significant", Amber: "Minor", Green: "Minimal" };
+
+// Fill colours used by the floor plan editor
+const RAG_COLORS: Record<string, string> = { Significant: "#ef4444", Minor: "#f59e0b" };
+const DEFAULT_ROOM_COLOR = "#10b981";
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const columnLabel = (headers: RoomHeaders, column: number) =>
+  String(headers.row1[column] || headers.row2[column] || `Column ${column + 1}`);
+
+const planScale = (floor: FloorPlan, units: GeoJsonUnits) => {
+  if (units === "metres" && !floor.pixelsPerMetre) throw new Error("Calibrate the scale before exporting in metres");
+  return units === "metres" ? floor.pixelsPerMetre! : 1;
+};
+
+const toPosition = (floor: FloorPlan, scale: number, p: Point): Position => [round(p.x / scale), round((floor.height - p.y) / scale)];
+
+const fromPosition = (floor: FloorPlan, scale: number, [x, y]: Position): Point => ({ x: x * scale, y: floor.height - y * scale });
+
+/** Spreadsheet fields keyed by column name; repeated or reserved names get a numeric suffix. */
+const scheduleProperties = (room: Room, headers: RoomHeaders, reserved: string[]) => {
+  const used = new Set(reserved);
+  const properties: Record<string, unknown> = {};
+  room.data.forEach((value, column) => {
+    const base = columnLabel(headers, column);
+    let key = base;
+    for (let n = 2; used.has(key); n++) key = `${base} (${n})`;
+    used.add(key);
+    properties[key] = value ?? null;
+  });
+  return properties;
+};
+
+const ragFor = (polygon: FloorPlanRoom, dataRoom: Room | undefined, headers: RoomHeaders) => {
+  if (polygon.rag) return polygon.rag;
+  const column = headers.schema?.findIndex(schema => schema?.type === "rag") ?? -1;
+  const rating = column >= 0 && dataRoom ? parseRag(dataRoom.data[column]) : null;
+  return rating ? RAG_FROM_RATING[rating] : null;
+};
+
+/** GeoJSON exterior rings are closed and run counter-clockwise. */
+const ring = (positions: Position[]): Position[] => {
+  const signed = positions.reduce((sum, [x1, y1], i) => {
+    const [x2, y2] = positions[(i + 1) % positions.length];
+    return sum + x1 * y2 - x2 * y1;
+  }, 0);
+  const ordered = signed < 0 ? [...positions].reverse() : positions;
+  return [...ordered, ordered[0]];
+};
+
+/** The level's rooms, and its placed capture points, as a GeoJSON FeatureCollection. */
+export const buildRoomsGeoJson = (
+  floor: FloorPlan,
+  schedule: ExportSchedule,
+  panoramas: PanoramaItem[],
+  units: GeoJsonUnits
+): RoomsFeatureCollection => {
+  const scale = planScale(floor, units);
+  const rooms: GeoJsonFeature[] = floor.rooms
+    .filter(polygon => polygon.polygon.length >= 3)
+    .map(polygon => {
+      const dataRoom = polygon.assignedDataId ? schedule.rooms.find(r => r.id === polygon.assignedDataId) : undefined;
+      const base = {
+        feature_type: "room",
+        name: polygon.name,
+        level: polygon.level || floor.level,
+        rag: ragFor(polygon, dataRoom, schedule.headers),
+        area_m2: floor.pixelsPerMetre ? round(measurePolygon(polygon.polygon, floor.pixelsPerMetre).area) : null,
+        data_room_id: polygon.assignedDataId ?? null,
+      };
+      return {
+        type: "Feature",
+        id: polygon.id,
+        geometry: { type: "Polygon", coordinates: [ring(polygon.polygon.map(p => toPosition(floor, scale, p)))] },
+        properties: dataRoom ? { ...base, ...scheduleProperties(dataRoom, schedule.headers, Object.keys(base)) } : base,
+      };
+    });
+
+  const capturePoints: GeoJsonFeature[] = panoramas
+    .filter(pano => pano.position)
+    .map(pano => ({
+      type: "Feature",
+      id: pano.nodeId,
+      geometry: { type: "Point", coordinates: toPosition(floor, scale, pano.position!) },
+      properties: { feature_type: "capture_point", name: pano.title || pano.nodeId, level: floor.level, room: panoramaRoomKey(pano) },
+    }));
+
+  return {
+    type: "FeatureCollection",
+    plan: { level: floor.level, units, width: floor.width, height: floor.height, pixelsPerMetre: floor.pixelsPerMetre },
+    features: [...rooms, ...capturePoints],
+  };
+};
+
+/**
+ * Room polygons from GeoJSON: Polygon and MultiPolygon features become rooms (holes are
+ * dropped), anything else is skipped. Files exported here carry their own units.
+ */
+export const parseRoomsGeoJson = (text: string, floor: FloorPlan, units: GeoJsonUnits): { rooms: ImportedRoom[]; skipped: number } => {
+  let json: { type?: string; features?: GeoJsonFeature[]; plan?: { units?: GeoJsonUnits } };
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("Not a GeoJSON file");
+  }
+  const features: GeoJsonFeature[] =
+    json.type === "FeatureCollection" ? json.features ?? []
+    : json.type === "Feature" ? [json as unknown as GeoJsonFeature]
+    : json.type ? [{ type: "Feature", geometry: json as unknown as GeoJsonFeature["geometry"], properties: null }]
+    : [];
+  if (features.length === 0) throw new Error("The GeoJSON file has no features");
+  const scale = planScale(floor, json.plan?.units === "metres" || json.plan?.units === "pixels" ? json.plan.units : units);
+
+  const rooms: ImportedRoom[] = [];
+  let skipped = 0;
+  features.forEach(feature => {
+    const geometry = feature.geometry;
+    const outlines =
+      geometry?.type === "Polygon" ? [geometry.coordinates[0]]
+      : geometry?.type === "MultiPolygon" ? geometry.coordinates.map(polygon => polygon[0])
+      : [];
+    const properties = feature.properties ?? {};
+    const name = String(properties.name ?? properties.Name ?? properties.NAME ?? "").trim();
+    const rag = RAG_VALUES.find(value => value === properties.rag);
+    outlines.forEach(outline => {
+      // Drop the closing position GeoJSON repeats
+      const open = outline.length > 1 && outline[0][0] === outline[outline.length - 1][0] && outline[0][1] === outline[outline.length - 1][1]
+        ? outline.slice(0, -1)
+        : outline;
+      const polygon = open.map(position => fromPosition(floor, scale, position));
+      if (polygon.length < 3 || polygonArea(polygon) === 0) return;
+      rooms.push({
+        name: name || `Room ${rooms.length + 1}`,
+        polygon,
+        level: typeof properties.level === "string" ? properties.level : undefined,
+        rag,
+      });
+    });
+    if (outlines.length === 0) skipped++;
+  });
+  return { rooms, skipped };
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/** Centre of the outline's bounding box, where the room name is written. */
+const labelPoint = (polygon: Point[]): Point => {
+  const xs = polygon.map(p => p.x);
+  const ys = polygon.map(p => p.y);
+  return { x: (Math.min(...xs) + Math.max(...xs)) / 2, y: (Math.min(...ys) + Math.max(...ys)) / 2 };
+};
+
+/** The plan overlay as a standalone SVG in image pixels, over an embedded copy of the plan image. */
+export const buildPlanSvg = async (floor: FloorPlan, schedule: ExportSchedule, panoramas: PanoramaItem[]): Promise<string> => {
+  const fontSize = Math.max(10, Math.round(Math.max(floor.width, floor.height) / 150));
+  const parts: string[] = [];
+
+  if (floor.imageUrl) {
+    const href = await blobToDataUrl(await (await fetch(floor.imageUrl)).blob());
+    parts.push(`<image href="${href}" x="0" y="0" width="${floor.width}" height="${floor.height}" />`);
+  }
+
+  floor.rooms.filter(room => room.polygon.length >= 3).forEach(room => {
+    const dataRoom = room.assignedDataId ? schedule.rooms.find(r => r.id === room.assignedDataId) : undefined;
+    const rag = ragFor(room, dataRoom, schedule.headers);
+    const color = (rag && RAG_COLORS[rag]) || DEFAULT_ROOM_COLOR;
+    const points = room.polygon.map(p => `${round(p.x)},${round(p.y)}`).join(" ");
+    const label = labelPoint(room.polygon);
+    parts.push(
+      `<g id="${escapeXml(room.id)}">` +
+        `<polygon points="${points}" fill="${color}" fill-opacity="0.3" stroke="#64748b" stroke-width="2" />` +
+        `<text x="${round(label.x)}" y="${round(label.y)}" font-size="${fontSize}" text-anchor="middle" dominant-baseline="middle">${escapeXml(room.name)}</text>` +
+        `</g>`
+    );
+  });
+
+  panoramas.filter(pano => pano.position).forEach(pano => {
+    const { x, y } = pano.position!;
+    parts.push(
+      `<circle cx="${round(x)}" cy="${round(y)}" r="${fontSize / 2}" fill="#f97316" stroke="#ffffff" stroke-width="2">` +
+        `<title>${escapeXml(pano.title || pano.nodeId)}</title></circle>`
+    );
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${floor.width}" height="${floor.height}" viewBox="0 0 ${floor.width} ${floor.height}" font-family="sans-serif">`,
+    `<title>${escapeXml(floor.level)}</title>`,
+    ...parts,
+    `</svg>`,
+  ].join("\n");
+};
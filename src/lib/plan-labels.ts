@@ -0,0 +1,76 @@
+import { pointInPolygon } from "@/lib/geometry";
+import { roomCode } from "@/lib/room-fields";
+import { roomDisplayName, type PolygonLink } from "@/lib/room-links";
+import type { FloorPlanRoom, PlanLabel, Point, Room, RoomHeaders } from "@/types/project";
+
+// Room numbers and names printed on vector PDF plans. A label inside a polygon names it, and a
+// label that reads as a spreadsheet room ID links the polygon to that room.
+
+export interface LabelSchedule {
+  rooms: Room[];
+  headers: RoomHeaders;
+}
+
+export interface LabelSuggestion {
+  name: string;
+  dataRoomId?: string;
+}
+
+// Runs on one line differ by less than this, in image pixels
+const LINE_TOLERANCE = 2;
+
+// Areas and dimensions printed inside rooms aren't part of the name
+const MEASUREMENT_PATTERN = /^[\d.,\s]+(m²|m2|sq ?m|sq ?ft|mm|m)?$/i;
+
+const normalizeCode = (text: string) => text.toUpperCase().replace(/\s+/g, "");
+
+/** Labels inside an outline in reading order: top to bottom, then left to right. */
+export const labelsInPolygon = (labels: PlanLabel[], polygon: Point[]) =>
+  labels
+    .filter(label => pointInPolygon(label.position, polygon))
+    .sort((a, b) =>
+      Math.abs(a.position.y - b.position.y) > LINE_TOLERANCE ? a.position.y - b.position.y : a.position.x - b.position.x
+    );
+
+const matchScheduleRoom = (labels: PlanLabel[], schedule: LabelSchedule): Room | undefined => {
+  const byCode = new Map<string, Room>();
+  schedule.rooms.forEach(room => {
+    const code = normalizeCode(roomCode(room, schedule.headers));
+    if (code && !byCode.has(code)) byCode.set(code, room);
+  });
+  // A label may hold the number alone or the number and name, e.g. "G.01 Office"
+  const candidates = labels.flatMap(label => [label.text, ...label.text.split(/\s+/)]);
+  return candidates.map(text => byCode.get(normalizeCode(text))).find(Boolean);
+};
+
+/** Name for an outline from the labels inside it, and the spreadsheet room one of them identifies. */
+export const suggestFromLabels = (polygon: Point[], labels: PlanLabel[], schedule?: LabelSchedule): LabelSuggestion | null => {
+  const inside = labelsInPolygon(labels, polygon);
+  if (inside.length === 0) return null;
+  const match = schedule ? matchScheduleRoom(inside, schedule) : undefined;
+  if (match) return { name: roomDisplayName(match, schedule.headers), dataRoomId: match.id };
+  const name = inside.map(label => label.text).filter(text => !MEASUREMENT_PATTERN.test(text)).join(" ");
+  return name ? { name } : null;
+};
+
+/**
+ * Names and links for the unlinked polygons of a level. A spreadsheet room already linked
+ * elsewhere, or matched by an earlier polygon, only lends its name.
+ */
+export const linksFromLabels = (
+  polygons: FloorPlanRoom[],
+  labels: PlanLabel[],
+  schedule: LabelSchedule,
+  linkedDataIds: Set<string>
+): PolygonLink[] => {
+  const claimed = new Set(linkedDataIds);
+  return polygons.flatMap(polygon => {
+    if (polygon.assignedDataId) return [];
+    const suggestion = suggestFromLabels(polygon.polygon, labels, schedule);
+    if (!suggestion) return [];
+    const dataRoomId = suggestion.dataRoomId && !claimed.has(suggestion.dataRoomId) ? suggestion.dataRoomId : null;
+    if (dataRoomId) claimed.add(dataRoomId);
+    if (!dataRoomId && suggestion.name === polygon.name) return [];
+    return [{ polygonId: polygon.id, dataRoomId, name: suggestion.name }];
+  });
+};
@@ -0,0 +1,94 @@
+import { closestPointOnSegment, distance } from "@/lib/geometry";
+import type { Point } from "@/types/project";
+
+// Editing operations on room outlines, in image pixels. Snapping pulls a point onto the
+// vertices, then the edges, of other outlines so neighbouring rooms share their walls exactly.
+
+export type SnapKind = "vertex" | "edge";
+
+export interface SnapResult {
+  point: Point;
+  kind: SnapKind | null; // null when nothing was in reach
+}
+
+// Vertices closer than this are treated as one shared corner
+const SHARED_VERTEX_TOLERANCE = 0.5;
+
+/** Pull `point` onto the nearest vertex within `tolerance`, else the nearest edge. */
+export const snapPoint = (point: Point, outlines: Point[][], tolerance: number): SnapResult => {
+  let best: SnapResult = { point, kind: null };
+  let bestDistance = tolerance;
+  outlines.forEach(outline => outline.forEach(vertex => {
+    const d = distance(point, vertex);
+    if (d <= bestDistance) {
+      best = { point: vertex, kind: "vertex" };
+      bestDistance = d;
+    }
+  }));
+  if (best.kind) return best;
+
+  outlines.forEach(outline => outline.forEach((a, i) => {
+    const b = outline[(i + 1) % outline.length];
+    const closest = closestPointOnSegment(point, a, b);
+    const d = distance(point, closest);
+    if (d <= bestDistance) {
+      best = { point: closest, kind: "edge" };
+      bestDistance = d;
+    }
+  }));
+  return best;
+};
+
+/** Turn the segment from `from` to `to` onto the nearest multiple of 45°, keeping its projected length. */
+export const constrainAngle = (from: Point, to: Point): Point => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const angle = Math.round(Math.atan2(dy, dx) / (Math.PI / 4)) * (Math.PI / 4);
+  const length = dx * Math.cos(angle) + dy * Math.sin(angle);
+  return { x: from.x + length * Math.cos(angle), y: from.y + length * Math.sin(angle) };
+};
+
+/** Insert the midpoint of the edge starting at `edgeIndex`. */
+export const insertVertex = (polygon: Point[], edgeIndex: number): Point[] => {
+  const a = polygon[edgeIndex];
+  const b = polygon[(edgeIndex + 1) % polygon.length];
+  return [...polygon.slice(0, edgeIndex + 1), { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }, ...polygon.slice(edgeIndex + 1)];
+};
+
+/** Remove a vertex; a room keeps at least three. */
+export const removeVertex = (polygon: Point[], index: number): Point[] =>
+  polygon.length <= 3 ? polygon : polygon.filter((_, i) => i !== index);
+
+export const translatePolygon = (polygon: Point[], dx: number, dy: number): Point[] =>
+  polygon.map(p => ({ x: p.x + dx, y: p.y + dy }));
+
+/**
+ * Offset that snaps a whole outline being moved: the smallest pull of any of its vertices
+ * onto the other outlines, or no offset when none is in reach.
+ */
+export const snapTranslation = (polygon: Point[], outlines: Point[][], tolerance: number): Point => {
+  let best = { x: 0, y: 0 };
+  let bestDistance = Infinity;
+  polygon.forEach(vertex => {
+    const snap = snapPoint(vertex, outlines, tolerance);
+    const d = distance(vertex, snap.point);
+    if (snap.kind && d < bestDistance) {
+      best = { x: snap.point.x - vertex.x, y: snap.point.y - vertex.y };
+      bestDistance = d;
+    }
+  });
+  return best;
+};
+
+export interface VertexRef {
+  outlineId: string;
+  index: number;
+}
+
+/** Vertices of other outlines sitting on `point`, i.e. corners shared with neighbouring rooms. */
+export const sharedVertices = (point: Point, outlines: { id: string; polygon: Point[] }[]): VertexRef[] =>
+  outlines.flatMap(outline =>
+    outline.polygon.flatMap((vertex, index) =>
+      distance(vertex, point) <= SHARED_VERTEX_TOLERANCE ? [{ outlineId: outline.id, index }] : []
+    )
+  );
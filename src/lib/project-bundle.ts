@@ -0,0 +1,169 @@
+import { strFromU8, strToU8, unzip, zip, type Unzipped, type Zippable } from "fflate";
+import { getBlob, putBlob } from "@/lib/project-db";
+import {
+  createSnapshot,
+  floorSourceKey,
+  foldAssignmentsSnapshot,
+  restoreSnapshot,
+  upgradeSingleFloorSnapshot,
+  type AssignmentsSnapshot,
+  type ProjectSnapshot,
+  type SingleFloorSnapshot,
+} from "@/lib/project-snapshot";
+import type { ProjectState } from "@/types/project";
+
+// A .vuesync bundle is a zip archive holding `manifest.json` plus every image the
+// project references, and the original floor plan uploads, under `assets/`. The manifest carries a schema version; bundles
+// written by older builds are upgraded step by step through MANIFEST_MIGRATIONS.
+
+export const BUNDLE_EXTENSION = ".vuesync";
+export const BUNDLE_SCHEMA_VERSION = 3;
+
+const BUNDLE_FORMAT = "vuesync-project";
+const MANIFEST_PATH = "manifest.json";
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  createdAt: string;
+  project: ProjectSnapshot;
+  /** asset key → path of the file inside the archive */
+  assets: Record<string, string>;
+}
+
+type RawManifest = Record<string, unknown> & { schemaVersion: number };
+
+// Each entry upgrades a manifest from version `n` to `n + 1`.
+const MANIFEST_MIGRATIONS: Record<number, (manifest: RawManifest) => RawManifest> = {
+  // v1 → v2: single floor plan becomes a building with one level
+  1: manifest => ({
+    ...manifest,
+    project: upgradeSingleFloorSnapshot(manifest.project as SingleFloorSnapshot),
+  }),
+  // v2 → v3: panorama assignments move onto the panoramas themselves
+  2: manifest => ({
+    ...manifest,
+    project: foldAssignmentsSnapshot(manifest.project as AssignmentsSnapshot),
+  }),
+};
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+  "image/vnd.dxf": "dxf",
+};
+
+const MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  pdf: "application/pdf",
+  dxf: "image/vnd.dxf",
+};
+
+const zipAsync = (files: Zippable) =>
+  new Promise<Uint8Array>((resolve, reject) => zip(files, (err, data) => (err ? reject(err) : resolve(data))));
+
+const unzipAsync = (data: Uint8Array) =>
+  new Promise<Unzipped>((resolve, reject) => unzip(data, (err, files) => (err ? reject(err) : resolve(files))));
+
+const assetPath = (key: string, type: string) =>
+  `assets/${key.replace(/[^a-zA-Z0-9/_-]/g, "_")}.${EXTENSIONS[type] ?? "bin"}`;
+
+export const migrateManifest = (raw: unknown): BundleManifest => {
+  const candidate = raw as RawManifest | null;
+  if (!candidate || candidate.format !== BUNDLE_FORMAT || typeof candidate.schemaVersion !== "number") {
+    throw new Error("Not a VueSync project bundle");
+  }
+  if (candidate.schemaVersion > BUNDLE_SCHEMA_VERSION) {
+    throw new Error(`Bundle schema v${candidate.schemaVersion} is newer than this app supports (v${BUNDLE_SCHEMA_VERSION}). Please update VueSync.`);
+  }
+
+  let manifest = candidate;
+  while (manifest.schemaVersion < BUNDLE_SCHEMA_VERSION) {
+    const migrate = MANIFEST_MIGRATIONS[manifest.schemaVersion];
+    if (!migrate) throw new Error(`No migration from bundle schema v${manifest.schemaVersion}`);
+    manifest = { ...migrate(manifest), schemaVersion: manifest.schemaVersion + 1 };
+  }
+  return manifest as unknown as BundleManifest;
+};
+
+export const exportProjectBundle = async (state: ProjectState): Promise<Blob> => {
+  const { snapshot, assets } = createSnapshot(state);
+  const files: Zippable = {};
+  const assetPaths: Record<string, string> = {};
+
+  for (const asset of assets) {
+    try {
+      const blob = await (await fetch(asset.url)).blob();
+      const path = assetPath(asset.key, blob.type);
+      // Images are already compressed, store them as-is
+      files[path] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+      assetPaths[asset.key] = path;
+    } catch (e) {
+      console.warn(`Skipping asset ${asset.key}: failed to read image`, e);
+    }
+  }
+
+  // Original uploads only live in the blob store; levels cut from one PDF share a copy
+  const sourceKeys = new Set(snapshot.building.floors.filter(floor => floor.sourceFileName).map(floorSourceKey));
+  for (const key of sourceKeys) {
+    try {
+      const blob = await getBlob(key);
+      if (!blob) continue;
+      const path = assetPath(key, blob.type);
+      files[path] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+      assetPaths[key] = path;
+    } catch (e) {
+      console.warn(`Skipping source ${key}: failed to read upload`, e);
+    }
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    project: snapshot,
+    assets: assetPaths,
+  };
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return new Blob([await zipAsync(files)], { type: "application/zip" });
+};
+
+export const importProjectBundle = async (file: Blob): Promise<ProjectState> => {
+  const files = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+  const manifestData = files[MANIFEST_PATH];
+  if (!manifestData) throw new Error("Bundle is missing manifest.json");
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(strFromU8(manifestData));
+  } catch {
+    throw new Error("Bundle manifest is not valid JSON");
+  }
+  const manifest = migrateManifest(raw);
+
+  // Source uploads go straight back into the blob store; images become object URLs
+  const sourceKeys = new Set(manifest.project.building.floors.filter(floor => floor.sourceFileName).map(floorSourceKey));
+  const urls = new Map<string, string>();
+  for (const [key, path] of Object.entries(manifest.assets ?? {})) {
+    const data = files[path];
+    if (!data) {
+      console.warn(`Bundle asset ${path} is missing`);
+      continue;
+    }
+    const type = MIME_TYPES[path.split(".").pop()?.toLowerCase() ?? ""] ?? "application/octet-stream";
+    const blob = new Blob([data], { type });
+    if (sourceKeys.has(key)) {
+      await putBlob(key, blob).catch(e => console.warn(`Failed to store source ${key}`, e));
+    } else {
+      urls.set(key, URL.createObjectURL(blob));
+    }
+  }
+
+  return restoreSnapshot(manifest.project, key => urls.get(key));
+};
@@ -0,0 +1,90 @@
+// Thin promise wrapper around the IndexedDB database that holds the local project.
+// Two object stores: "project" keeps the serialisable snapshot under a single key,
+// "blobs" keeps the original image/PDF files keyed by asset key.
+
+const DB_NAME = "vuesync";
+const DB_VERSION = 1;
+const PROJECT_STORE = "project";
+const BLOB_STORE = "blobs";
+const CURRENT_PROJECT_KEY = "current";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECT_STORE)) db.createObjectStore(PROJECT_STORE);
+      if (!db.objectStoreNames.contains(BLOB_STORE)) db.createObjectStore(BLOB_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+export const loadProjectRecord = async <T>(): Promise<T | null> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECT_STORE, "readonly");
+  const record = await requestToPromise(tx.objectStore(PROJECT_STORE).get(CURRENT_PROJECT_KEY));
+  return (record as T) ?? null;
+};
+
+export const saveProjectRecord = async <T>(record: T): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECT_STORE, "readwrite");
+  tx.objectStore(PROJECT_STORE).put(record, CURRENT_PROJECT_KEY);
+  await transactionDone(tx);
+};
+
+export const getBlob = async (key: string): Promise<Blob | null> => {
+  const db = await openDb();
+  const tx = db.transaction(BLOB_STORE, "readonly");
+  const blob = await requestToPromise(tx.objectStore(BLOB_STORE).get(key));
+  return (blob as Blob) ?? null;
+};
+
+export const putBlob = async (key: string, blob: Blob): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(BLOB_STORE, "readwrite");
+  tx.objectStore(BLOB_STORE).put(blob, key);
+  await transactionDone(tx);
+};
+
+/** Delete every stored blob whose key is not in `keep`, returning the deleted keys. */
+export const pruneBlobs = async (keep: Set<string>): Promise<string[]> => {
+  const db = await openDb();
+  const tx = db.transaction(BLOB_STORE, "readwrite");
+  const store = tx.objectStore(BLOB_STORE);
+  const keys = await requestToPromise(store.getAllKeys());
+  const deleted = keys.map(String).filter(key => !keep.has(key));
+  deleted.forEach(key => store.delete(key));
+  await transactionDone(tx);
+  return deleted;
+};
@@ -0,0 +1,15 @@
+import type { ProjectSettings } from "@/types/project";
+import { DEFAULT_AREA_TOLERANCE_PERCENT } from "@/lib/room-area";
+import { DEFAULT_COLUMN_CATEGORIES } from "@/lib/column-categories";
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  areaTolerancePercent: DEFAULT_AREA_TOLERANCE_PERCENT,
+  columnCategories: DEFAULT_COLUMN_CATEGORIES,
+  roomViews: [],
+};
+
+/** Fill in settings added after a project was saved. */
+export const withDefaultSettings = (settings?: Partial<ProjectSettings>): ProjectSettings => ({
+  ...DEFAULT_PROJECT_SETTINGS,
+  ...settings,
+});
@@ -0,0 +1,133 @@
+import { withDefaultSettings } from "@/lib/project-settings";
+import { roomLinkFields } from "@/lib/room-links";
+import type { Building, FloorPlan, PanoramaItem, ProjectState } from "@/types/project";
+
+// A snapshot is the project state with every object URL stripped out. Object URLs
+// only live as long as the page, so images are tracked as assets (asset key → URL)
+// and rebuilt from the stored blobs when the snapshot is restored.
+
+export type SnapshotFloorPlan = Omit<FloorPlan, "imageUrl">;
+export type SnapshotPanorama = Omit<PanoramaItem, "imageUrl">;
+
+export interface SnapshotBuilding extends Omit<Building, "floors"> {
+  floors: SnapshotFloorPlan[];
+}
+
+export interface ProjectSnapshot {
+  rooms: ProjectState["rooms"];
+  headers: ProjectState["headers"];
+  panoramas: SnapshotPanorama[];
+  building: SnapshotBuilding;
+  settings?: ProjectState["settings"];
+}
+
+export interface ProjectAsset {
+  key: string;
+  url: string;
+}
+
+export const floorPlanAssetKey = (floorPlanId: string) => `floorplan/${floorPlanId}`;
+export const floorPlanSourceKey = (floorPlanId: string) => `floorplan-source/${floorPlanId}`;
+/** Source blob of a floor; levels cut from one PDF share a single copy. */
+export const floorSourceKey = (floor: Pick<FloorPlan, "id" | "sourceId">) => floorPlanSourceKey(floor.sourceId ?? floor.id);
+export const panoramaAssetKey = (nodeId: string) => `panorama/${nodeId}`;
+
+export const createSnapshot = (state: ProjectState): { snapshot: ProjectSnapshot; assets: ProjectAsset[] } => {
+  const assets: ProjectAsset[] = [];
+
+  const floors = state.building.floors.map(({ imageUrl, ...rest }) => {
+    if (imageUrl) assets.push({ key: floorPlanAssetKey(rest.id), url: imageUrl });
+    return rest;
+  });
+
+  const panoramas = state.panoramas.map(({ imageUrl, ...rest }) => {
+    if (imageUrl) assets.push({ key: panoramaAssetKey(rest.nodeId), url: imageUrl });
+    return rest;
+  });
+
+  return {
+    snapshot: {
+      rooms: state.rooms,
+      headers: state.headers,
+      panoramas,
+      building: { ...state.building, floors },
+      settings: state.settings,
+    },
+    assets,
+  };
+};
+
+/** Keys of every blob a snapshot needs, including original uploads kept for re-processing. */
+export const snapshotBlobKeys = (snapshot: ProjectSnapshot): string[] => {
+  const keys = snapshot.panoramas.map(p => panoramaAssetKey(p.nodeId));
+  snapshot.building.floors.forEach(floor => {
+    keys.push(floorPlanAssetKey(floor.id));
+    if (floor.sourceFileName) keys.push(floorSourceKey(floor));
+  });
+  return [...new Set(keys)];
+};
+
+/** Snapshots written before multi-floor support held a single optional `floorPlan`. */
+export type SingleFloorSnapshot = Omit<ProjectSnapshot, "building"> & {
+  floorPlan?: Omit<SnapshotFloorPlan, "level"> | null;
+};
+
+/** Wrap the floor plan of a pre-multi-floor snapshot into a one-storey building. */
+export const upgradeSingleFloorSnapshot = (snapshot: SingleFloorSnapshot): ProjectSnapshot => {
+  const { floorPlan, ...rest } = snapshot;
+  return {
+    ...rest,
+    building: {
+      id: "building-1",
+      name: "Building",
+      floors: floorPlan ? [{ ...floorPlan, level: "Ground Floor" }] : [],
+    },
+  };
+};
+
+/** Room → panoramas list written by the old "Assign Panoramas" tab. */
+export interface LegacyAssignment {
+  roomId: string;
+  panoramaIds: string[];
+}
+
+/** Snapshots written before the unified link model kept assignments next to `PanoramaItem.roomId`. */
+export type AssignmentsSnapshot = ProjectSnapshot & { assignments?: LegacyAssignment[] };
+
+/**
+ * Fold legacy assignments into `PanoramaItem.roomId`. A room set directly on the panorama
+ * wins, since that is what the viewer used; otherwise the first assignment listing it does.
+ * The old floor plan upload stored polygon ids there too; those become the polygon's room key.
+ */
+export const foldAssignmentsSnapshot = (snapshot: AssignmentsSnapshot): ProjectSnapshot => {
+  const { assignments = [], ...rest } = snapshot;
+  const links = { rooms: rest.rooms ?? [], building: rest.building as Building };
+  return {
+    ...rest,
+    panoramas: (rest.panoramas ?? []).map(pano => {
+      const roomId = pano.roomId ?? assignments.find(a => a.panoramaIds.includes(pano.nodeId))?.roomId;
+      return roomId ? { ...pano, ...roomLinkFields(links, roomId) } : pano;
+    }),
+  };
+};
+
+/** Rebuild project state, resolving each asset key to a URL (undefined when the blob is missing). */
+export const restoreSnapshot = (
+  snapshot: ProjectSnapshot,
+  resolveUrl: (key: string) => string | undefined
+): ProjectState => ({
+  rooms: snapshot.rooms ?? [],
+  headers: snapshot.headers ?? { row1: [], row2: [] },
+  panoramas: (snapshot.panoramas ?? []).map(p => ({
+    ...p,
+    imageUrl: resolveUrl(panoramaAssetKey(p.nodeId)),
+  })),
+  building: {
+    ...snapshot.building,
+    floors: snapshot.building.floors.map(floor => ({
+      ...floor,
+      imageUrl: resolveUrl(floorPlanAssetKey(floor.id)) ?? "",
+    })),
+  },
+  settings: withDefaultSettings(snapshot.settings),
+});
@@ -0,0 +1,35 @@
+import { parseNumber } from "@/lib/column-schema";
+import { resolveRoomFields } from "@/lib/room-fields";
+import type { Room, RoomHeaders } from "@/types/project";
+
+export const DEFAULT_AREA_TOLERANCE_PERCENT = 10;
+
+// The schedule reports room area in m², in the mapped area column or the Q01 column.
+export const findAreaColumn = (headers: RoomHeaders) => resolveRoomFields(headers).area;
+
+/** Area from the spreadsheet, or null when the column is missing or not a number. */
+export const getReportedArea = (room: Room, headers: RoomHeaders): number | null => {
+  const column = findAreaColumn(headers);
+  if (column < 0) return null;
+  const value = parseNumber(room.data[column]);
+  return value !== null && value > 0 ? value : null;
+};
+
+export interface AreaCheck {
+  computed: number;
+  reported: number;
+  differencePercent: number;
+  mismatch: boolean;
+}
+
+export const checkArea = (computed: number, reported: number, tolerancePercent: number): AreaCheck => {
+  const differencePercent = ((computed - reported) / reported) * 100;
+  return {
+    computed,
+    reported,
+    differencePercent,
+    mismatch: Math.abs(differencePercent) > tolerancePercent,
+  };
+};
+
+export const formatArea = (area: number) => `${area.toFixed(area < 10 ? 2 : 1)} m²`;
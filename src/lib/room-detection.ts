@@ -0,0 +1,157 @@
+import type { Point } from "@/types/project";
+
+// Semi-automatic room outlines: flood-fill the light pixels around a click, bounded by the
+// dark wall lines of the plan, trace the edge of the filled region and simplify it.
+// Runs inside room-detection.worker.ts so large plans don't block the editor.
+
+export interface DetectionOptions {
+  threshold: number; // 0-255; pixels darker than this are walls
+  tolerance: number; // simplification, in image pixels
+}
+
+export const DEFAULT_DETECTION_OPTIONS: DetectionOptions = { threshold: 160, tolerance: 2 };
+
+export interface PlanPixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, as from getImageData
+}
+
+export type RoomDetectionMessage =
+  | ({ type: "image"; key: string } & PlanPixels)
+  | { type: "detect"; id: number; key: string; seed: Point; options: DetectionOptions };
+
+export type RoomDetectionReply = { id: number; polygon: Point[] } | { id: number; error: string };
+
+// A fill covering more of the plan than this has escaped through a gap in the walls
+const MAX_REGION_FRACTION = 0.5;
+
+// Moore neighbourhood, clockwise on screen starting west
+const DX = [-1, -1, 0, 1, 1, 1, 0, -1];
+const DY = [0, -1, -1, -1, 0, 1, 1, 1];
+
+const isLight = (pixels: PlanPixels, index: number, threshold: number) => {
+  const { data } = pixels;
+  const i = index * 4;
+  // Transparent areas count as paper
+  if (data[i + 3] < 128) return true;
+  return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2] >= threshold;
+};
+
+/** Light pixels 4-connected to the seed; diagonal gaps between wall pixels don't leak. */
+const floodFill = (pixels: PlanPixels, seedX: number, seedY: number, threshold: number) => {
+  const { width, height } = pixels;
+  const mask = new Uint8Array(width * height);
+  const stack = [seedY * width + seedX];
+  const limit = width * height * MAX_REGION_FRACTION;
+  let count = 0;
+  mask[stack[0]] = 1;
+
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    const x = index % width;
+    const y = (index - x) / width;
+    if (x === 0 || y === 0 || x === width - 1 || y === height - 1 || ++count > limit) return null;
+    for (const next of [index - 1, index + 1, index - width, index + width]) {
+      if (!mask[next] && isLight(pixels, next, threshold)) {
+        mask[next] = 1;
+        stack.push(next);
+      }
+    }
+  }
+  return mask;
+};
+
+/** Outer boundary of the filled region, as pixel centres; holes such as text labels are ignored. */
+const traceContour = (mask: Uint8Array, width: number): Point[] => {
+  const start = mask.indexOf(1);
+  const sx = start % width;
+  const sy = (start - sx) / width;
+  const inside = (x: number, y: number) => mask[y * width + x] === 1;
+
+  // The first pixel in scan order always has background to its west
+  let px = sx, py = sy, bx = sx - 1, by = sy;
+  const cells: number[] = [start];
+  const maxSteps = mask.length * 2;
+
+  for (let step = 0; step < maxSteps; step++) {
+    const from = DX.findIndex((dx, d) => dx === bx - px && DY[d] === by - py);
+    const k = [1, 2, 3, 4, 5, 6, 7, 8].find(k => inside(px + DX[(from + k) % 8], py + DY[(from + k) % 8]));
+    // A single pixel has nowhere to go
+    if (k === undefined) break;
+    const d = (from + k) % 8;
+    const back = (from + k - 1) % 8;
+    const next = (py + DY[d]) * width + px + DX[d];
+    // Leaving the start the same way as the first time: the loop is closed
+    if (py * width + px === start && cells.length > 1 && next === cells[1]) {
+      cells.pop();
+      break;
+    }
+    bx = px + DX[back];
+    by = py + DY[back];
+    px += DX[d];
+    py += DY[d];
+    cells.push(next);
+  }
+  return cells.map(cell => ({ x: (cell % width) + 0.5, y: Math.floor(cell / width) + 0.5 }));
+};
+
+const distanceToLine = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  return Math.abs(dy * p.x - dx * p.y + b.x * a.y - b.y * a.x) / length;
+};
+
+/** Douglas–Peucker on an open run of points, keeping both ends. */
+const simplifyRun = (points: Point[], tolerance: number): Point[] => {
+  if (points.length <= 2) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  let furthest = 0;
+  let furthestDistance = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToLine(points[i], first, last);
+    if (d > furthestDistance) {
+      furthest = i;
+      furthestDistance = d;
+    }
+  }
+  if (furthestDistance <= tolerance) return [first, last];
+  const left = simplifyRun(points.slice(0, furthest + 1), tolerance);
+  const right = simplifyRun(points.slice(furthest), tolerance);
+  return [...left.slice(0, -1), ...right];
+};
+
+/** Simplify a closed outline by splitting it at the point furthest from its start. */
+export const simplifyPolygon = (polygon: Point[], tolerance: number): Point[] => {
+  if (polygon.length <= 3) return polygon;
+  const start = polygon[0];
+  let split = 0;
+  polygon.forEach((p, i) => {
+    if (Math.hypot(p.x - start.x, p.y - start.y) > Math.hypot(polygon[split].x - start.x, polygon[split].y - start.y)) split = i;
+  });
+  const first = simplifyRun(polygon.slice(0, split + 1), tolerance);
+  const second = simplifyRun([...polygon.slice(split), start], tolerance);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+};
+
+/** Outline of the room around `seed`, in image pixels. Throws with a user-facing message when there is none. */
+export const detectRoom = (pixels: PlanPixels, seed: Point, options: DetectionOptions): Point[] => {
+  const x = Math.floor(seed.x);
+  const y = Math.floor(seed.y);
+  if (x < 0 || y < 0 || x >= pixels.width || y >= pixels.height) {
+    throw new Error("Click inside the floor plan");
+  }
+  if (!isLight(pixels, y * pixels.width + x, options.threshold)) {
+    throw new Error("That point is on a wall line; click inside a room or lower the threshold");
+  }
+  const mask = floodFill(pixels, x, y, options.threshold);
+  if (!mask) {
+    throw new Error("The room isn't enclosed: the fill escaped through a gap such as a doorway. Raise the threshold or draw this room by hand");
+  }
+  const polygon = simplifyPolygon(traceContour(mask, pixels.width), Math.max(0, options.tolerance));
+  if (polygon.length < 3) throw new Error("The detected area is too small to be a room");
+  return polygon;
+};
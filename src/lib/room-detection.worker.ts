@@ -0,0 +1,25 @@
+import { detectRoom, type PlanPixels, type RoomDetectionMessage, type RoomDetectionReply } from "@/lib/room-detection";
+
+// The plan's pixels are sent once per image and kept here for every following click
+let image: { key: string; pixels: PlanPixels } | null = null;
+
+self.onmessage = (event: MessageEvent<RoomDetectionMessage>) => {
+  const message = event.data;
+  if (message.type === "image") {
+    const { key, width, height, data } = message;
+    image = { key, pixels: { width, height, data } };
+    return;
+  }
+
+  let reply: RoomDetectionReply;
+  if (image?.key !== message.key) {
+    reply = { id: message.id, error: "The floor plan image hasn't loaded yet" };
+  } else {
+    try {
+      reply = { id: message.id, polygon: detectRoom(image.pixels, message.seed, message.options) };
+    } catch (error) {
+      reply = { id: message.id, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+  self.postMessage(reply);
+};
@@ -0,0 +1,91 @@
+import Papa from "papaparse";
+import * as XLSX from "xlsx";
+import { measurePolygon } from "@/lib/geometry";
+import { panoramasInRoom, polygonForRoom } from "@/lib/room-links";
+import type { ProjectState, RoomHeaders } from "@/types/project";
+
+// Exports use the import layout: row 1 column names, row 2 column codes, then one row per room.
+// The optional link columns carry VS_ codes so the importer can recognise and drop them again.
+
+export type ExportFormat = "csv" | "xlsx";
+
+export interface ExportOptions {
+  includeLinks: boolean;
+}
+
+const LINK_COLUMNS = [
+  { name: "Linked Floor Plan Room", code: "VS_PLAN_ROOM" },
+  { name: "Drawn Area (m²)", code: "VS_DRAWN_AREA" },
+  { name: "Panorama Count", code: "VS_PANORAMAS" },
+];
+
+const LINK_CODES = new Set(LINK_COLUMNS.map(column => column.code));
+
+type Cell = string | number;
+
+const toCell = (value: unknown): Cell =>
+  typeof value === "number" ? value : value === null || value === undefined ? "" : String(value);
+
+/** The schedule as rows of cells, two header rows first. */
+export const buildExportRows = (
+  state: Pick<ProjectState, "rooms" | "headers" | "building" | "panoramas">,
+  options: ExportOptions
+): Cell[][] => {
+  const width = Math.max(
+    state.headers.row1.length,
+    state.headers.row2.length,
+    ...state.rooms.map(room => room.data.length)
+  );
+  const pad = (cells: unknown[]) => Array.from({ length: width }, (_, i) => toCell(cells[i]));
+
+  const row1 = pad(state.headers.row1);
+  const row2 = pad(state.headers.row2);
+  if (options.includeLinks) {
+    row1.push(...LINK_COLUMNS.map(column => column.name));
+    row2.push(...LINK_COLUMNS.map(column => column.code));
+  }
+
+  const body = state.rooms.map(room => {
+    const cells = pad(room.data);
+    if (options.includeLinks) {
+      const ref = polygonForRoom(state.building, room.id);
+      const area = ref?.floor.pixelsPerMetre
+        ? Number(measurePolygon(ref.polygon.polygon, ref.floor.pixelsPerMetre).area.toFixed(2))
+        : "";
+      cells.push(ref?.polygon.name ?? "", area, panoramasInRoom(state.panoramas, room.id).length);
+    }
+    return cells;
+  });
+
+  return [row1, row2, ...body];
+};
+
+export const exportRoomsFile = (rows: Cell[][], format: ExportFormat): Blob => {
+  if (format === "csv") {
+    return new Blob([Papa.unparse(rows)], { type: "text/csv;charset=utf-8" });
+  }
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), "Rooms");
+  const buffer = XLSX.write(workbook, { bookType: "xlsx", type: "array" }) as ArrayBuffer;
+  return new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+};
+
+/** Drop the link columns an export added, so a re-imported file matches the original schedule. */
+export const stripLinkColumns = (headers: RoomHeaders, rows: unknown[][]) => {
+  const keep = headers.row2.map((code, i) => (LINK_CODES.has(String(code ?? "").trim()) ? -1 : i)).filter(i => i >= 0);
+  if (keep.length === headers.row2.length) return { headers, rows };
+  // Columns past the last code are data without a header; leave them alone
+  const tail = (cells: unknown[]) => cells.slice(headers.row2.length);
+  const pick = <T>(cells: T[]) => [...keep.map(i => cells[i]), ...tail(cells)] as T[];
+  const moved = (column?: number) => (column === undefined ? undefined : keep.indexOf(column));
+  const fields = headers.fields && {
+    id: moved(headers.fields.id),
+    name: moved(headers.fields.name),
+    level: moved(headers.fields.level),
+    area: moved(headers.fields.area),
+  };
+  return {
+    headers: { row1: pick(headers.row1), row2: pick(headers.row2), ...(fields && { fields }) },
+    rows: rows.map(row => pick(row)),
+  };
+};
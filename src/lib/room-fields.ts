@@ -0,0 +1,63 @@
+import type { Room, RoomFieldMap, RoomHeaders } from "@/types/project";
+
+// Which column holds the room's id, name, level and area. Imports may map these explicitly;
+// older projects and exports fall back to the original layout (id in column 0, name in 1).
+
+const AREA_CODE = "Q01";
+const LEVEL_PATTERN = /\b(LEVEL|FLOOR|STOREY|LVL)\b/;
+const AREA_PATTERN = /\bAREA\b|M2|M²/;
+
+export interface ResolvedRoomFields {
+  id: number;
+  name: number;
+  level: number; // -1 when the schedule has no level column
+  area: number; // -1 when the schedule has no area column
+}
+
+const label = (value: unknown) => String(value ?? "").toUpperCase().replace(/_/g, " ");
+
+const findColumn = (headers: RoomHeaders, test: (text: string) => boolean) => {
+  const width = Math.max(headers.row1.length, headers.row2.length);
+  for (let i = 0; i < width; i++) {
+    if (test(label(headers.row2[i])) || test(label(headers.row1[i]))) return i;
+  }
+  return -1;
+};
+
+/** Best guess at the field columns from header text alone. */
+export const detectRoomFields = (headers: RoomHeaders): ResolvedRoomFields => {
+  const id = findColumn(headers, text => /\bROOM (ID|REF|NO|NUMBER|CODE)\b|^(ID|REF|ROOM)$/.test(text.trim()));
+  const name = findColumn(headers, text => /\b(ROOM )?NAME\b|\bDESCRIPTION\b/.test(text));
+  const areaByCode = headers.row2.findIndex(code => code?.toString().toUpperCase().includes(AREA_CODE));
+  return {
+    id: id >= 0 ? id : 0,
+    name: name >= 0 ? name : 1,
+    level: findColumn(headers, text => LEVEL_PATTERN.test(text)),
+    area: areaByCode >= 0 ? areaByCode : findColumn(headers, text => AREA_PATTERN.test(text)),
+  };
+};
+
+export const resolveRoomFields = (headers: RoomHeaders): ResolvedRoomFields => {
+  const fields: Partial<RoomFieldMap> = headers.fields ?? {};
+  const detected = detectRoomFields(headers);
+  if (!headers.fields) {
+    // Without a mapping keep the original layout for id and name
+    return { ...detected, id: 0, name: 1 };
+  }
+  return {
+    id: fields.id ?? detected.id,
+    name: fields.name ?? detected.name,
+    level: fields.level ?? -1,
+    area: fields.area ?? -1,
+  };
+};
+
+const cell = (room: Room, column: number) => (column >= 0 ? String(room.data[column] ?? "").trim() : "");
+
+export const roomCode = (room: Room, headers: RoomHeaders) => cell(room, resolveRoomFields(headers).id);
+
+export const roomName = (room: Room, headers: RoomHeaders) => cell(room, resolveRoomFields(headers).name);
+
+/** The level column, else the level given to the room's source sheet on import. */
+export const roomLevel = (room: Room, headers: RoomHeaders) =>
+  cell(room, resolveRoomFields(headers).level) || room.source?.level || "";
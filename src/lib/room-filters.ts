@@ -0,0 +1,163 @@
+import { floorForRoom } from "@/lib/building";
+import { isEmptyCell, parseDate, parseNumber } from "@/lib/column-schema";
+import { roomLevel } from "@/lib/room-fields";
+import { panoramaRoomKey, roomKeyForPolygon } from "@/lib/room-links";
+import type { FilterOperator, ProjectState, Room, RoomFilter, RoomHeaders, RoomSort, RoomView } from "@/types/project";
+
+// A room view keeps the rooms matching all (or any) of its filters, sorted by each sort key
+// in turn. Column filters compare numbers and dates by value when both sides parse as one,
+// and text case-insensitively otherwise. Views refer to columns by code, or by name for
+// columns without one, and are resolved against the current headers when applied.
+
+export const FILTER_OPERATORS: { value: FilterOperator; label: string; needsValue: boolean }[] = [
+  { value: "equals", label: "equals", needsValue: true },
+  { value: "contains", label: "contains", needsValue: true },
+  { value: "empty", label: "is empty", needsValue: false },
+  { value: "notEmpty", label: "is not empty", needsValue: false },
+  { value: "gt", label: "greater than", needsValue: true },
+  { value: "lt", label: "less than", needsValue: true },
+  { value: "in", label: "in list", needsValue: true },
+];
+
+export const ALL_ROOMS: RoomView = { id: "all", name: "All rooms", match: "all", filters: [], sort: [] };
+
+export const operatorNeedsValue = (operator: FilterOperator) =>
+  FILTER_OPERATORS.find(o => o.value === operator)?.needsValue ?? true;
+
+/** Link lookups shared by every room a view is applied to. */
+export interface FilterContext {
+  headers: RoomHeaders;
+  linked: Set<string>;
+  withPanoramas: Set<string>;
+  level: (room: Room) => string;
+}
+
+export const createFilterContext = (state: Pick<ProjectState, "headers" | "building" | "panoramas">): FilterContext => ({
+  headers: state.headers,
+  linked: new Set(state.building.floors.flatMap(floor => floor.rooms.map(roomKeyForPolygon))),
+  withPanoramas: new Set(state.panoramas.map(panoramaRoomKey).filter((key): key is string => !!key)),
+  level: room => roomLevel(room, state.headers) || floorForRoom(state.building, room.id)?.level || "",
+});
+
+const text = (value: unknown) => String(value ?? "").trim().toLowerCase();
+
+/** How a view refers to a column. */
+export const columnKey = (headers: RoomHeaders, column: number) =>
+  String(headers.row2[column] || headers.row1[column] || `Column ${column + 1}`).trim();
+
+/** The column a view's key refers to in these headers, or -1 when the column is gone. */
+export const findColumn = (headers: RoomHeaders, key: string) => {
+  const width = Math.max(headers.row1.length, headers.row2.length);
+  for (let column = 0; column < width; column++) {
+    if (text(columnKey(headers, column)) === text(key)) return column;
+  }
+  return -1;
+};
+
+/** Keys of the columns a view filters or sorts on that these headers no longer have. */
+export const staleColumns = (view: RoomView, headers: RoomHeaders) => {
+  const keys = [
+    ...view.filters.flatMap(filter => (filter.type === "column" ? [filter.column] : [])),
+    ...view.sort.map(key => key.column),
+  ];
+  return [...new Set(keys.filter(key => findColumn(headers, key) < 0))];
+};
+
+/** Compare two cells by number, then date, then text. */
+const compareValues = (a: unknown, b: unknown) => {
+  const numberA = parseNumber(a);
+  const numberB = parseNumber(b);
+  if (numberA !== null && numberB !== null) return numberA - numberB;
+  const dateA = parseDate(a);
+  const dateB = parseDate(b);
+  if (dateA && dateB) return dateA.localeCompare(dateB);
+  return text(a).localeCompare(text(b), undefined, { numeric: true });
+};
+
+const listValues = (value: string) => value.split(",").map(text).filter(Boolean);
+
+const matchesColumn = (cell: unknown, operator: FilterOperator, value: string) => {
+  switch (operator) {
+    case "empty":
+      return isEmptyCell(cell);
+    case "notEmpty":
+      return !isEmptyCell(cell);
+    case "equals":
+      return compareValues(cell, value) === 0;
+    case "contains":
+      return text(cell).includes(text(value));
+    case "gt":
+      return !isEmptyCell(cell) && compareValues(cell, value) > 0;
+    case "lt":
+      return !isEmptyCell(cell) && compareValues(cell, value) < 0;
+    case "in":
+      return listValues(value).includes(text(cell));
+  }
+};
+
+// `column` is the filter's column resolved against the current headers
+const matchesFilter = (room: Room, filter: RoomFilter, column: number, context: FilterContext) => {
+  switch (filter.type) {
+    case "column":
+      return matchesColumn(room.data[column], filter.operator, filter.value);
+    case "panoramas":
+      return context.withPanoramas.has(room.id) === filter.present;
+    case "linked":
+      return context.linked.has(room.id) === filter.present;
+    case "level":
+      return text(context.level(room)) === text(filter.level);
+  }
+};
+
+const sortRooms = (rooms: Room[], sort: (Omit<RoomSort, "column"> & { column: number })[]) => {
+  if (sort.length === 0) return rooms;
+  return [...rooms].sort((a, b) => {
+    for (const key of sort) {
+      // Empty cells go last whichever way the column is sorted
+      const emptyA = isEmptyCell(a.data[key.column]);
+      const emptyB = isEmptyCell(b.data[key.column]);
+      if (emptyA !== emptyB) return emptyA ? 1 : -1;
+      const order = compareValues(a.data[key.column], b.data[key.column]);
+      if (order !== 0) return key.direction === "asc" ? order : -order;
+    }
+    return 0;
+  });
+};
+
+/** The rooms a view shows. Filters and sort keys on columns that are gone are left out. */
+export const applyRoomView = (rooms: Room[], view: RoomView, context: FilterContext) => {
+  const filters = view.filters.flatMap(filter => {
+    const column = filter.type === "column" ? findColumn(context.headers, filter.column) : -1;
+    return filter.type === "column" && column < 0 ? [] : [{ filter, column }];
+  });
+  const sort = view.sort.flatMap(key => {
+    const column = findColumn(context.headers, key.column);
+    return column >= 0 ? [{ ...key, column }] : [];
+  });
+  const filtered = filters.length === 0
+    ? rooms
+    : rooms.filter(room =>
+        view.match === "all"
+          ? filters.every(({ filter, column }) => matchesFilter(room, filter, column, context))
+          : filters.some(({ filter, column }) => matchesFilter(room, filter, column, context))
+      );
+  return sortRooms(filtered, sort);
+};
+
+/** Short description of a filter for chips and tooltips. */
+export const describeFilter = (filter: RoomFilter, headers: RoomHeaders) => {
+  switch (filter.type) {
+    case "column": {
+      const index = findColumn(headers, filter.column);
+      const column = index >= 0 ? headers.row1[index] || headers.row2[index] || filter.column : `${filter.column} (missing)`;
+      const operator = FILTER_OPERATORS.find(o => o.value === filter.operator)?.label ?? filter.operator;
+      return operatorNeedsValue(filter.operator) ? `${column} ${operator} ${filter.value}` : `${column} ${operator}`;
+    }
+    case "panoramas":
+      return filter.present ? "Has panoramas" : "No panoramas";
+    case "linked":
+      return filter.present ? "Linked to floor plan" : "Not on floor plan";
+    case "level":
+      return `Level is ${filter.level}`;
+  }
+};
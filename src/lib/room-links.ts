@@ -0,0 +1,279 @@
+import { floorForPanorama } from "@/lib/building";
+import { pointInPolygon } from "@/lib/geometry";
+import { roomCode, roomName } from "@/lib/room-fields";
+import type { Building, FloorPlan, FloorPlanRoom, PanoramaItem, ProjectState, Room, RoomHeaders } from "@/types/project";
+
+// One model links the three kinds of room record together:
+//   spreadsheet room ← polygon    FloorPlanRoom.assignedDataId (at most one polygon per spreadsheet room)
+//   room ← panorama               PanoramaItem.roomId, the spreadsheet room, or PanoramaItem.polygonId
+//                                 while the panorama's polygon has no spreadsheet room yet
+// A "room key" names a room either way: the spreadsheet room id when there is one, otherwise the
+// polygon id. Every tab reads and writes links through the helpers below so the invariants hold.
+
+export interface PolygonRef {
+  polygon: FloorPlanRoom;
+  floor: FloorPlan;
+}
+
+export interface RoomOption {
+  id: string; // room key
+  name: string;
+}
+
+export const roomDisplayName = (room: Room, headers: RoomHeaders) => roomName(room, headers) || roomCode(room, headers) || room.id;
+
+export const allPolygons = (building: Building): PolygonRef[] =>
+  building.floors.flatMap(floor => floor.rooms.map(polygon => ({ polygon, floor })));
+
+export const findPolygon = (building: Building, polygonId: string): PolygonRef | null =>
+  allPolygons(building).find(ref => ref.polygon.id === polygonId) ?? null;
+
+/** The polygon for a room key: the polygon itself, or the one linked to the spreadsheet room. */
+export const polygonForRoom = (building: Building, roomKey: string): PolygonRef | null =>
+  allPolygons(building).find(ref => ref.polygon.id === roomKey || ref.polygon.assignedDataId === roomKey) ?? null;
+
+export const roomKeyForPolygon = (polygon: FloorPlanRoom) => polygon.assignedDataId ?? polygon.id;
+
+/** Normalise a polygon id or spreadsheet room id to the room key. */
+export const canonicalRoomKey = (building: Building, id: string) => {
+  const ref = findPolygon(building, id);
+  return ref ? roomKeyForPolygon(ref.polygon) : id;
+};
+
+export const panoramaRoomKey = (pano: PanoramaItem): string | null => pano.roomId ?? pano.polygonId ?? null;
+
+export const panoramasInRoom = (panoramas: PanoramaItem[], roomKey: string) =>
+  panoramas.filter(p => panoramaRoomKey(p) === roomKey);
+
+export const panoramaInPolygon = (pano: PanoramaItem, polygon: FloorPlanRoom) =>
+  pano.polygonId === polygon.id || (!!polygon.assignedDataId && pano.roomId === polygon.assignedDataId);
+
+/** Rooms a panorama can be assigned to: every spreadsheet room, plus polygons without one. */
+export const roomOptions = (state: Pick<ProjectState, "rooms" | "headers" | "building">): RoomOption[] => [
+  ...state.rooms.map(room => ({ id: room.id, name: roomDisplayName(room, state.headers) })),
+  ...allPolygons(state.building)
+    .filter(ref => !ref.polygon.assignedDataId)
+    .map(ref => ({ id: ref.polygon.id, name: `${ref.polygon.name} (plan only)` })),
+];
+
+/** Link fields for a panorama placed in the room named by `roomKey` (null unassigns). */
+export const roomLinkFields = (
+  state: Pick<ProjectState, "rooms" | "building">,
+  roomKey: string | null
+): Pick<PanoramaItem, "roomId" | "polygonId"> => {
+  if (!roomKey) return { roomId: undefined, polygonId: undefined };
+  if (state.rooms.some(r => r.id === roomKey)) return { roomId: roomKey, polygonId: undefined };
+  const ref = findPolygon(state.building, roomKey);
+  if (ref?.polygon.assignedDataId) return { roomId: ref.polygon.assignedDataId, polygonId: undefined };
+  if (ref) return { roomId: undefined, polygonId: roomKey };
+  return { roomId: roomKey, polygonId: undefined };
+};
+
+export interface PanoramaLink {
+  nodeId: string;
+  roomKey: string | null;
+}
+
+export const assignPanoramas = (state: ProjectState, links: PanoramaLink[]): ProjectState => {
+  const byNode = new Map(links.map(link => [link.nodeId, link.roomKey]));
+  return {
+    ...state,
+    panoramas: state.panoramas.map(p =>
+      byNode.has(p.nodeId) ? { ...p, ...roomLinkFields(state, byNode.get(p.nodeId) ?? null) } : p
+    ),
+  };
+};
+
+export interface PolygonLink {
+  polygonId: string;
+  dataRoomId: string | null;
+  name?: string;
+}
+
+/**
+ * Link a polygon to a spreadsheet room (or unlink with null). The spreadsheet room is taken
+ * off any other polygon, and panoramas attached to the bare polygon move to the spreadsheet room.
+ */
+export const linkPolygon = (state: ProjectState, polygonId: string, dataRoomId: string | null, name?: string): ProjectState => {
+  const building: Building = {
+    ...state.building,
+    floors: state.building.floors.map(floor => ({
+      ...floor,
+      rooms: floor.rooms.map(polygon => {
+        if (polygon.id === polygonId) {
+          return { ...polygon, assignedDataId: dataRoomId ?? undefined, name: name ?? polygon.name };
+        }
+        if (dataRoomId && polygon.assignedDataId === dataRoomId) {
+          return { ...polygon, assignedDataId: undefined };
+        }
+        return polygon;
+      }),
+    })),
+  };
+  const panoramas = dataRoomId
+    ? state.panoramas.map(p => (p.polygonId === polygonId ? { ...p, roomId: dataRoomId, polygonId: undefined } : p))
+    : state.panoramas;
+  return { ...state, building, panoramas };
+};
+
+/**
+ * Replace the spreadsheet rooms. Polygons linked to a room that is gone lose the link, and its
+ * panoramas fall back to that polygon (or are unassigned when it had none).
+ */
+export const importRooms = (state: ProjectState, rooms: Room[], headers: RoomHeaders): ProjectState => {
+  const roomIds = new Set(rooms.map(r => r.id));
+  const polygonByRoom = new Map(
+    allPolygons(state.building)
+      .filter(ref => ref.polygon.assignedDataId)
+      .map(ref => [ref.polygon.assignedDataId!, ref.polygon.id])
+  );
+  const building: Building = {
+    ...state.building,
+    floors: state.building.floors.map(floor => ({
+      ...floor,
+      rooms: floor.rooms.map(polygon =>
+        polygon.assignedDataId && !roomIds.has(polygon.assignedDataId) ? { ...polygon, assignedDataId: undefined } : polygon
+      ),
+    })),
+  };
+  const panoramas = state.panoramas.map(p =>
+    p.roomId && !roomIds.has(p.roomId) ? { ...p, roomId: undefined, polygonId: p.polygonId ?? polygonByRoom.get(p.roomId) } : p
+  );
+  return { ...state, rooms, headers, building, panoramas };
+};
+
+/**
+ * Remove polygons. Panoramas attached to one move to its spreadsheet room, or are unassigned
+ * when it had none.
+ */
+export const deletePolygons = (state: ProjectState, polygonIds: string[]): ProjectState => {
+  const deleted = new Map(
+    allPolygons(state.building)
+      .filter(ref => polygonIds.includes(ref.polygon.id))
+      .map(ref => [ref.polygon.id, ref.polygon])
+  );
+  if (deleted.size === 0) return state;
+  const building: Building = {
+    ...state.building,
+    floors: state.building.floors.map(floor =>
+      floor.rooms.some(polygon => deleted.has(polygon.id))
+        ? { ...floor, rooms: floor.rooms.filter(polygon => !deleted.has(polygon.id)) }
+        : floor
+    ),
+  };
+  const panoramas = state.panoramas.map(p =>
+    p.polygonId && deleted.has(p.polygonId)
+      ? { ...p, roomId: p.roomId ?? deleted.get(p.polygonId)!.assignedDataId, polygonId: undefined }
+      : p
+  );
+  return { ...state, building, panoramas };
+};
+
+/** Remove a level with its polygons. Panoramas placed on it lose their capture point and level. */
+export const deleteFloor = (state: ProjectState, floorId: string): ProjectState => {
+  const floor = state.building.floors.find(f => f.id === floorId);
+  if (!floor) return state;
+  const onFloor = new Set(state.panoramas.filter(p => floorForPanorama(state.building, p)?.id === floorId).map(p => p.nodeId));
+  const next = deletePolygons(state, floor.rooms.map(polygon => polygon.id));
+  return {
+    ...next,
+    building: { ...next.building, floors: next.building.floors.filter(f => f.id !== floorId) },
+    panoramas: next.panoramas.map(p => (onFloor.has(p.nodeId) ? { ...p, position: undefined, floor: undefined } : p)),
+  };
+};
+
+export type LinkIssueKind = "orphan" | "conflict";
+
+export interface LinkIssue {
+  kind: LinkIssueKind;
+  message: string;
+  nodeId?: string;
+  polygonId?: string;
+  roomId?: string;
+}
+
+/** Orphaned links point at something that no longer exists; conflicting links disagree with each other. */
+export const checkRoomLinks = (state: ProjectState): LinkIssue[] => {
+  const issues: LinkIssue[] = [];
+  const roomIds = new Set(state.rooms.map(r => r.id));
+  const nodeIds = new Set(state.panoramas.map(p => p.nodeId));
+  const roomName = (id: string) => {
+    const room = state.rooms.find(r => r.id === id);
+    return room ? roomDisplayName(room, state.headers) : id;
+  };
+  const polygons = allPolygons(state.building);
+  const polygonsByRoom = new Map<string, PolygonRef[]>();
+
+  polygons.forEach(ref => {
+    const { polygon, floor } = ref;
+    if (!polygon.assignedDataId) return;
+    if (!roomIds.has(polygon.assignedDataId)) {
+      issues.push({
+        kind: "orphan",
+        message: `Polygon "${polygon.name}" on ${floor.level} is linked to missing spreadsheet room ${polygon.assignedDataId}`,
+        polygonId: polygon.id,
+        roomId: polygon.assignedDataId,
+      });
+    }
+    polygonsByRoom.set(polygon.assignedDataId, [...(polygonsByRoom.get(polygon.assignedDataId) ?? []), ref]);
+  });
+
+  polygonsByRoom.forEach((refs, roomId) => {
+    if (refs.length > 1) {
+      issues.push({
+        kind: "conflict",
+        message: `Spreadsheet room "${roomName(roomId)}" is linked to ${refs.length} polygons: ${refs.map(r => r.polygon.name).join(", ")}`,
+        roomId,
+      });
+    }
+  });
+
+  state.panoramas.forEach(pano => {
+    const label = pano.title || pano.nodeId;
+    if (pano.roomId && !roomIds.has(pano.roomId)) {
+      issues.push({ kind: "orphan", message: `Panorama "${label}" is assigned to missing room ${pano.roomId}`, nodeId: pano.nodeId, roomId: pano.roomId });
+    }
+
+    const polygonRef = pano.polygonId ? findPolygon(state.building, pano.polygonId) : null;
+    if (pano.polygonId && !polygonRef) {
+      issues.push({ kind: "orphan", message: `Panorama "${label}" is assigned to missing polygon ${pano.polygonId}`, nodeId: pano.nodeId, polygonId: pano.polygonId });
+    }
+    if (pano.roomId && pano.polygonId) {
+      issues.push({
+        kind: "conflict",
+        message: `Panorama "${label}" is assigned to both room "${roomName(pano.roomId)}" and polygon ${pano.polygonId}`,
+        nodeId: pano.nodeId,
+      });
+    } else if (polygonRef?.polygon.assignedDataId) {
+      issues.push({
+        kind: "conflict",
+        message: `Panorama "${label}" points at polygon "${polygonRef.polygon.name}" instead of its room "${roomName(polygonRef.polygon.assignedDataId)}"`,
+        nodeId: pano.nodeId,
+        polygonId: pano.polygonId,
+      });
+    }
+
+    // A capture point should sit inside the room the panorama is assigned to
+    const key = panoramaRoomKey(pano);
+    const home = key ? polygonForRoom(state.building, key) : null;
+    if (pano.position && home) {
+      const containing = home.floor.rooms.find(r => pointInPolygon(pano.position!, r.polygon));
+      if (containing && containing.id !== home.polygon.id) {
+        issues.push({
+          kind: "conflict",
+          message: `Panorama "${label}" is assigned to "${home.polygon.name}" but placed inside "${containing.name}"`,
+          nodeId: pano.nodeId,
+          polygonId: containing.id,
+        });
+      }
+    }
+
+    pano.hotspots?.forEach(hotspot => {
+      if (!nodeIds.has(hotspot.targetNodeId)) {
+        issues.push({ kind: "orphan", message: `Link in "${label}" points at missing panorama ${hotspot.targetNodeId}`, nodeId: pano.nodeId });
+      }
+    });
+  });
+
+  return issues;
+};
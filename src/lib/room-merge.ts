@@ -0,0 +1,146 @@
+import type { Room, RoomHeaders, RoomSource } from "@/types/project";
+
+// A merge import matches spreadsheet rows to existing rooms by a key column instead of by
+// position, so existing rooms keep their ids and every polygon and panorama link survives.
+
+export interface CellChange {
+  column: number; // column in the imported file
+  before: string;
+  after: string;
+}
+
+export interface RoomUpdate {
+  room: Room; // existing id, imported data
+  key: string;
+  changes: CellChange[];
+}
+
+export interface RoomMergePlan {
+  keyColumn: number;
+  rooms: Room[]; // matched and added rooms in file order
+  added: Room[];
+  updated: RoomUpdate[];
+  unchanged: Room[];
+  removed: Room[];
+  // Rows that could not be matched safely: no key, or a key used more than once
+  skipped: { row: number; reason: string }[];
+}
+
+const KEY_CODES = ["ROOM", "REF"];
+
+const normalizeKey = (value: unknown) => String(value ?? "").trim().toUpperCase();
+
+const cellText = (value: unknown) => (value === null || value === undefined ? "" : String(value));
+
+const headerLabel = (headers: RoomHeaders, column: number) =>
+  normalizeKey(headers.row2[column]) || normalizeKey(headers.row1[column]);
+
+/** The mapped room id column, else the first column whose code looks like a room reference. */
+export const guessKeyColumn = (headers: RoomHeaders) => {
+  if (headers.fields) return headers.fields.id;
+  const index = headers.row2.findIndex(code => KEY_CODES.some(k => normalizeKey(code).includes(k)));
+  return index >= 0 ? index : 0;
+};
+
+/** For each column of `to`, the matching column of `from` by code (or name), or -1. */
+export const matchColumns = (from: RoomHeaders, to: RoomHeaders) => {
+  const width = Math.max(to.row1.length, to.row2.length);
+  const used = new Set<number>();
+  return Array.from({ length: width }, (_, column) => {
+    const label = headerLabel(to, column);
+    const fromWidth = Math.max(from.row1.length, from.row2.length);
+    for (let i = 0; i < fromWidth; i++) {
+      if (!used.has(i) && label && headerLabel(from, i) === label) {
+        used.add(i);
+        return i;
+      }
+    }
+    return -1;
+  });
+};
+
+/** Reorder a row's cells from one header layout to another; unknown columns come out empty. */
+export const remapRow = (data: unknown[], columns: number[]) => columns.map(i => (i >= 0 ? data[i] ?? "" : ""));
+
+export const planRoomMerge = (
+  existing: Room[],
+  existingHeaders: RoomHeaders,
+  rows: unknown[][],
+  headers: RoomHeaders,
+  keyColumn: number,
+  sources?: RoomSource[] // source sheet of each row, for multi-sheet imports
+): RoomMergePlan => {
+  const columns = matchColumns(existingHeaders, headers);
+  const existingKeyColumn = columns[keyColumn] ?? -1;
+  const byKey = new Map<string, Room>();
+  if (existingKeyColumn >= 0) {
+    existing.forEach(room => {
+      const key = normalizeKey(room.data[existingKeyColumn]);
+      if (key && !byKey.has(key)) byKey.set(key, room);
+    });
+  }
+
+  const plan: RoomMergePlan = { keyColumn, rooms: [], added: [], updated: [], unchanged: [], removed: [], skipped: [] };
+  const seen = new Set<string>();
+  const stamp = Date.now();
+
+  rows.forEach((row, index) => {
+    const key = normalizeKey(row[keyColumn]);
+    // Counted from the first data row, as header rows vary between files
+    const rowNumber = index + 1;
+    if (!key) {
+      plan.skipped.push({ row: rowNumber, reason: "No key value" });
+      return;
+    }
+    if (seen.has(key)) {
+      plan.skipped.push({ row: rowNumber, reason: `Duplicate key ${key}` });
+      return;
+    }
+    seen.add(key);
+
+    const match = byKey.get(key);
+    const source = sources?.[index];
+    if (!match) {
+      const room: Room = { id: `room-${stamp}-${index}`, data: row, ...(source && { source }) };
+      plan.rooms.push(room);
+      plan.added.push(room);
+      return;
+    }
+    const previous = remapRow(match.data, columns);
+    const width = Math.max(row.length, previous.length);
+    const changes: CellChange[] = [];
+    for (let column = 0; column < width; column++) {
+      const before = cellText(previous[column]);
+      const after = cellText(row[column]);
+      if (before !== after) changes.push({ column, before, after });
+    }
+    // A file without sheet tags keeps the sheet the room came from
+    const kept = source ?? match.source;
+    const room: Room = { id: match.id, data: row, ...(kept && { source: kept }) };
+    plan.rooms.push(room);
+    if (changes.length > 0) plan.updated.push({ room, key, changes });
+    else plan.unchanged.push(room);
+  });
+
+  plan.removed = existing.filter(room => {
+    const key = existingKeyColumn >= 0 ? normalizeKey(room.data[existingKeyColumn]) : "";
+    return !key || !seen.has(key) || byKey.get(key) !== room;
+  });
+
+  return plan;
+};
+
+/**
+ * The merged room list. Rooms missing from the file are dropped, or kept at the end
+ * (their cells moved to the new column layout) when `keepRemoved` is set.
+ */
+export const applyRoomMerge = (
+  plan: RoomMergePlan,
+  existingHeaders: RoomHeaders,
+  headers: RoomHeaders,
+  keepRemoved: boolean
+): Room[] => {
+  if (!keepRemoved) return plan.rooms;
+  const columns = matchColumns(existingHeaders, headers);
+  return [...plan.rooms, ...plan.removed.map(room => ({ ...room, data: remapRow(room.data, columns) }))];
+};
@@ -0,0 +1,88 @@
+import { bearingBetween, bearingToYaw, distance, pointInPolygon, polygonsTouch } from "@/lib/geometry";
+import type { FloorPlan, PanoramaHotspot, PanoramaItem, Point } from "@/types/project";
+
+// Assumed tripod height, used to aim hotspots down at the floor of the next capture point
+const CAMERA_HEIGHT_METRES = 1.6;
+// Pitch used when the plan has no scale
+const DEFAULT_HOTSPOT_PITCH = -10;
+// Rooms separated by no more than a wall's thickness count as adjacent
+const WALL_THICKNESS_METRES = 0.6;
+const WALL_THICKNESS_PIXELS = 12;
+
+export interface HotspotSuggestion {
+  fromNodeId: string;
+  hotspot: PanoramaHotspot;
+  sameRoom: boolean;
+  distance: number; // metres when the plan is calibrated, otherwise pixels
+}
+
+type PlacedPanorama = PanoramaItem & { position: Point };
+
+const createHotspot = (from: PlacedPanorama, to: PlacedPanorama, floor: FloorPlan): HotspotSuggestion => {
+  const bearing = bearingBetween(from.position, to.position);
+  const pixels = distance(from.position, to.position);
+  const metres = floor.pixelsPerMetre ? pixels / floor.pixelsPerMetre : null;
+  const pitch = metres ? -(Math.atan2(CAMERA_HEIGHT_METRES, metres) * 180) / Math.PI : DEFAULT_HOTSPOT_PITCH;
+  return {
+    fromNodeId: from.nodeId,
+    hotspot: {
+      id: `hotspot-${from.nodeId}-${to.nodeId}`,
+      yaw: bearingToYaw(bearing, from.yawOffset),
+      pitch,
+      targetNodeId: to.nodeId,
+      // Arrive facing the direction of travel
+      targetYaw: bearingToYaw(bearing, to.yawOffset),
+      targetPitch: 0,
+    },
+    sameRoom: false,
+    distance: metres ?? pixels,
+  };
+};
+
+/**
+ * Suggests links between panoramas placed on a floor: every pair within the same room,
+ * and the closest pair between adjacent rooms. Links that already exist are skipped.
+ */
+export const suggestHotspots = (floor: FloorPlan, panoramas: PanoramaItem[]): HotspotSuggestion[] => {
+  const placed = panoramas.filter((p): p is PlacedPanorama => !!p.position);
+  const roomOf = new Map(placed.map(p => [p.nodeId, floor.rooms.find(r => pointInPolygon(p.position, r.polygon))]));
+  const tolerance = floor.pixelsPerMetre ? WALL_THICKNESS_METRES * floor.pixelsPerMetre : WALL_THICKNESS_PIXELS;
+
+  const pairs: [PlacedPanorama, PlacedPanorama, boolean][] = [];
+  const closestBetweenRooms = new Map<string, [PlacedPanorama, PlacedPanorama]>();
+
+  for (let i = 0; i < placed.length; i++) {
+    for (let j = i + 1; j < placed.length; j++) {
+      const a = placed[i];
+      const b = placed[j];
+      const roomA = roomOf.get(a.nodeId);
+      const roomB = roomOf.get(b.nodeId);
+      if (!roomA || !roomB) continue;
+      if (roomA.id === roomB.id) {
+        pairs.push([a, b, true]);
+      } else if (polygonsTouch(roomA.polygon, roomB.polygon, tolerance)) {
+        const key = [roomA.id, roomB.id].sort().join('|');
+        const current = closestBetweenRooms.get(key);
+        if (!current || distance(a.position, b.position) < distance(current[0].position, current[1].position)) {
+          closestBetweenRooms.set(key, [a, b]);
+        }
+      }
+    }
+  }
+  closestBetweenRooms.forEach(([a, b]) => pairs.push([a, b, false]));
+
+  const linked = (from: PanoramaItem, to: PanoramaItem) => from.hotspots?.some(h => h.targetNodeId === to.nodeId);
+
+  return pairs.flatMap(([a, b, sameRoom]) =>
+    [[a, b], [b, a]]
+      .filter(([from, to]) => !linked(from, to))
+      .map(([from, to]) => ({ ...createHotspot(from, to, floor), sameRoom }))
+  );
+};
+
+/** Adds accepted suggestions to their source panoramas. */
+export const applyHotspotSuggestions = (panoramas: PanoramaItem[], suggestions: HotspotSuggestion[]): PanoramaItem[] =>
+  panoramas.map(p => {
+    const added = suggestions.filter(s => s.fromNodeId === p.nodeId).map(s => s.hotspot);
+    return added.length > 0 ? { ...p, hotspots: [...(p.hotspots ?? []), ...added] } : p;
+  });
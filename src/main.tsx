@@ -1,5 +1,8 @@
 import { createRoot } from "react-dom/client";
+import { registerSW } from "virtual:pwa-register";
 import App from "./App.tsx";
 import "./index.css";
 
+registerSW({ immediate: true });
+
 createRoot(document.getElementById("root")!).render(<App />);
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { Header } from "@/components/layout/Header";
 import { ImportInterface } from "@/components/import/ImportInterface";
 import { RoomsTable } from "@/components/rooms/RoomsTable";
@@ -17,62 +17,39 @@ import { Badge } from "@/components/ui/badge";
 import { Play, RotateCcw } from "lucide-react";
 import { parse as exifrParse } from "exifr";
 import { toast } from "sonner";
-
-interface Room {
-  id: string;
-  data: any[];
-}
-
-interface Assignment {
-  roomId: string;
-  panoramaIds: string[];
-}
-
-interface Panorama {
-  nodeId: string;
-  title: string;
-  floor?: string;
-  fileName?: string;
-  imageUrl?: string;
-  width?: number;
-  height?: number;
-  yawOffset?: number;
-  pitchOffset?: number;
-  rollOffset?: number;
-  metadata?: any;
-  roomId?: string;
-}
-
-interface FloorPlan {
-  id: string;
-  imageUrl: string;
-  width: number;
-  height: number;
-  rooms: FloorPlanRoom[];
-}
-
-interface FloorPlanRoom {
-  id: string;
-  name: string;
-  polygon: { x: number; y: number }[];
-  level?: string;
-  rag?: 'Minimal' | 'Minor' | 'Significant';
-  notes?: string;
-  panoramas?: Panorama[];
-  panoramaCount?: number;
-}
+import { useProjectPersistence } from "@/hooks/use-project-persistence";
+import { useProjectStore, type DispatchOptions } from "@/hooks/use-project-store";
+import { putBlob } from "@/lib/project-db";
+import { createSnapshot, floorPlanSourceKey } from "@/lib/project-snapshot";
+import { BUNDLE_EXTENSION, exportProjectBundle, importProjectBundle } from "@/lib/project-bundle";
+import { isPdfFile, loadPdfDocument, rasterizePdfPage, type PdfDocument, type RasterizeOptions } from "@/lib/pdf";
+import { PdfPagePicker, type PdfPageSelection } from "@/components/floorplan/PdfPagePicker";
+import { DxfImportDialog } from "@/components/floorplan/DxfImportDialog";
+import { importDxfFloorPlan, isDxfFile, type DxfDrawing, type DxfImportOptions } from "@/lib/dxf";
+import { defaultLevelName, floorForPanorama, floorForRoom, getFloor, moveFloor, panoramasOnFloor, updateFloor } from "@/lib/building";
+import { distance } from "@/lib/geometry";
+import { checkRoomLinks, polygonForRoom, roomLinkFields, roomOptions } from "@/lib/room-links";
+import { applyHotspotSuggestions } from "@/lib/tour-links";
+import type { CellIssue } from "@/lib/column-schema";
+import { LinkIssuesDialog } from "@/components/assignment/LinkIssuesDialog";
+import type { Room, RoomHeaders, PanoramaItem as Panorama, FloorPlan, FloorPlanCalibration, FloorPlanRoom, PanoramaHotspot, Point, ProjectState } from "@/types/project";
 
 const MOCK_NODES = ["G-101", "G-102", "G-103", "F1-201", "F1-202", "F2-301"];
 
 const Index = () => {
   const [activeTab, setActiveTab] = useState("import");
-  const [rooms, setRooms] = useState<Room[]>([]);
-  const [headers, setHeaders] = useState<{ row1: string[]; row2: string[] }>({ row1: [], row2: [] });
-  const [assignments, setAssignments] = useState<Assignment[]>([]);
-  const [panoramas, setPanoramas] = useState<Panorama[]>([]);
+  const { state: project, dispatch, undo, redo, canUndo, canRedo, undoStates } = useProjectStore();
+  const { rooms, headers, panoramas, building, settings } = project;
   const [currentNodeId, setCurrentNodeId] = useState("G-101");
   const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
-  const [floorPlan, setFloorPlan] = useState<FloorPlan | null>(null);
+  const [activeFloorId, setActiveFloorId] = useState<string | null>(null);
+  const [pendingPdf, setPendingPdf] = useState<File | null>(null);
+  const [pendingDxf, setPendingDxf] = useState<File | null>(null);
+  const [showLinkIssues, setShowLinkIssues] = useState(false);
+
+  const floorPlan = getFloor(building, activeFloorId);
+  const linkIssues = useMemo(() => checkRoomLinks(project), [project]);
+  const levelNames = useMemo(() => building.floors.map(floor => floor.level), [building.floors]);
 
   useEffect(() => {
     // Keep current node valid if panoramas list changes
@@ -84,21 +61,165 @@ const Index = () => {
     }
   }, [panoramas]);
 
-  const handleImportComplete = (data: any[][], importHeaders: { row1: string[]; row2: string[] }) => {
-    const processedRooms: Room[] = data.map((row, index) => ({
-      id: `room-${index}`,
-      data: row,
-    }));
-    
-    setRooms(processedRooms);
-    setHeaders(importHeaders);
+  useEffect(() => {
+    // Keep the active level valid when floors are added, removed or restored
+    if (building.floors.length > 0 && !building.floors.some(f => f.id === activeFloorId)) {
+      setActiveFloorId(building.floors[0].id);
+    }
+  }, [building.floors, activeFloorId]);
+
+  // Follow the current panorama to its level. Only a change of panorama does this,
+  // so switching level by hand is not undone.
+  const followedNodeRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (followedNodeRef.current === currentNodeId) return;
+    followedNodeRef.current = currentNodeId;
+    const pano = panoramas.find(p => p.nodeId === currentNodeId);
+    const floor = pano ? floorForPanorama(building, pano) : null;
+    if (floor && floor.id !== activeFloorId) {
+      setActiveFloorId(floor.id);
+    }
+  }, [currentNodeId, panoramas, building, activeFloorId]);
+
+  useEffect(() => {
+    // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes. Text fields keep their own undo.
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  const applyProjectState = useCallback((next: ProjectState) => {
+    dispatch({ type: "load", state: next });
+    setActiveFloorId(next.building.floors[0]?.id ?? null);
+    setSelectedRoomId(null);
+  }, [dispatch]);
+
+  const handleProjectRestore = useCallback((restored: ProjectState) => {
+    applyProjectState(restored);
+    if (restored.rooms.length > 0 || restored.building.floors.length > 0 || restored.panoramas.length > 0) {
+      toast.success("Restored project from your last session");
+    }
+  }, [applyProjectState]);
+
+  const persistenceStatus = useProjectPersistence(project, handleProjectRestore, undoStates);
+
+  useEffect(() => {
+    if (persistenceStatus === "unavailable") {
+      toast.error("Local storage is unavailable - changes will not survive a page refresh");
+    }
+  }, [persistenceStatus]);
+
+  const handleSaveProject = async () => {
+    try {
+      const bundle = await exportProjectBundle(project);
+      const url = URL.createObjectURL(bundle);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `vuesync-project-${new Date().toISOString().slice(0, 10)}${BUNDLE_EXTENSION}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+      toast.success("Project saved");
+    } catch (e) {
+      console.error('Failed to export project bundle', e);
+      toast.error("Failed to save project");
+    }
+  };
+
+  const handleOpenProject = async (file: File) => {
+    const hasData = rooms.length > 0 || building.floors.length > 0 || panoramas.length > 0;
+    if (hasData && !window.confirm("Opening a project replaces the current rooms, floor plan and panoramas.\nContinue?")) {
+      return;
+    }
+    try {
+      const opened = await importProjectBundle(file);
+      // Opening starts a fresh history, so no state can show the replaced images again
+      const replacedUrls = [project, ...undoStates].flatMap(state => createSnapshot(state).assets.map(asset => asset.url));
+      applyProjectState(opened);
+      new Set(replacedUrls).forEach(url => URL.revokeObjectURL(url));
+      setActiveTab(opened.rooms.length > 0 ? "rooms" : "floorplan");
+      toast.success(`Opened ${file.name}`);
+    } catch (e) {
+      console.error('Failed to open project bundle', e);
+      toast.error(e instanceof Error ? e.message : "Failed to open project");
+    }
+  };
+
+  // Keep the original upload next to the raster so it can be re-processed later
+  const storeFloorPlanSource = (floorPlanId: string, file: File) => {
+    putBlob(floorPlanSourceKey(floorPlanId), file).catch(e => console.warn("Failed to store floor plan source", e));
+  };
+
+  const addFloor = (floor: Omit<FloorPlan, 'level'> & { level?: string }) => {
+    dispatch({
+      type: "updateBuilding",
+      update: prev => ({ ...prev, floors: [...prev.floors, { ...floor, level: floor.level || defaultLevelName(prev) }] }),
+    });
+    setActiveFloorId(floor.id);
+  };
+
+  const handleFloorChange = (floorId: string) => {
+    setActiveFloorId(floorId);
+    // Drop a room selection that belongs to another level
+    const selectedFloor = selectedRoomId ? floorForRoom(building, selectedRoomId) : null;
+    if (selectedFloor && selectedFloor.id !== floorId) {
+      setSelectedRoomId(null);
+    }
+  };
+
+  const handleFloorRename = (floorId: string, level: string) => {
+    dispatch({ type: "renameFloor", floorId, level }, { coalesce: `rename-level-${floorId}` });
+  };
+
+  const handleFloorMove = (floorId: string, direction: -1 | 1) => {
+    dispatch({ type: "updateBuilding", update: prev => moveFloor(prev, floorId, direction) });
+  };
+
+  const handleFloorCalibrate = (calibration: FloorPlanCalibration) => {
+    if (!floorPlan) return;
+    const pixels = distance(calibration.start, calibration.end);
+    dispatch({
+      type: "updateBuilding",
+      update: prev => updateFloor(prev, floorPlan.id, floor => ({
+        ...floor,
+        calibration,
+        pixelsPerMetre: pixels / calibration.metres
+      })),
+    });
+    toast.success(`Scale set to ${(pixels / calibration.metres).toFixed(1)} px/m on ${floorPlan.level}`);
+  };
+
+  const handleFloorDelete = (floorId: string) => {
+    dispatch({ type: "deleteFloor", floorId });
+    if (activeFloorId === floorId) {
+      setActiveFloorId(null);
+      setSelectedRoomId(null);
+    }
+  };
+
+  const handleImportComplete = (importedRooms: Room[], importHeaders: RoomHeaders, issues: CellIssue[]) => {
+    dispatch({ type: "importRooms", rooms: importedRooms, headers: importHeaders });
+    // Stay on the import summary so invalid cells can be reviewed
+    if (issues.length > 0) {
+      toast.warning(`${issues.length} cell${issues.length !== 1 ? 's' : ''} did not match their column type`);
+      return;
+    }
     setActiveTab("rooms");
   };
 
   const handleRoomUpdate = (roomId: string, data: any[]) => {
-    setRooms(prev => prev.map(room => 
-      room.id === roomId ? { ...room, data } : room
-    ));
+    dispatch({ type: "updateRoomData", roomId, data });
   };
 
   const handleRoomSelect = (roomId: string) => {
@@ -107,48 +228,14 @@ const Index = () => {
   };
 
   const handleFloorPlanUpload = async (file: File) => {
-    if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
-      try {
-        // Load PDF.js from CDN
-        if (typeof window !== 'undefined' && !(window as any).pdfjsLib) {
-          const script = document.createElement('script');
-          script.src = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js';
-          document.head.appendChild(script);
-          
-          await new Promise((resolve, reject) => {
-            script.onload = resolve;
-            script.onerror = reject;
-          });
-
-          // Set worker
-          (window as any).pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
-        }
-
-        const pdfjsLib = (window as any).pdfjsLib;
-        const arrayBuffer = await file.arrayBuffer();
-        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-        const page = await pdf.getPage(1);
-        const dpi = 200; // ~200 DPI
-        const viewport = page.getViewport({ scale: dpi / 72 });
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) throw new Error('Canvas not supported');
-        canvas.width = Math.floor(viewport.width);
-        canvas.height = Math.floor(viewport.height);
-        await page.render({ canvas, canvasContext: ctx, viewport }).promise;
-        const blob: Blob = await new Promise((resolve) => canvas.toBlob((b) => resolve(b as Blob), 'image/png')!);
-        const imageUrl = URL.createObjectURL(blob);
-        const newFloorPlan: FloorPlan = {
-          id: `fp-${Date.now()}`,
-          imageUrl,
-          width: canvas.width,
-          height: canvas.height,
-          rooms: []
-        };
-        setFloorPlan(newFloorPlan);
-      } catch (e) {
-        console.error('Failed to rasterize PDF', e);
-      }
+    if (isPdfFile(file)) {
+      // Pages are chosen in the picker, see handlePdfPagesImport
+      setPendingPdf(file);
+      return;
+    }
+    if (isDxfFile(file)) {
+      // Layer and units are chosen in the dialog, see handleDxfImport
+      setPendingDxf(file);
       return;
     }
 
@@ -156,46 +243,124 @@ const Index = () => {
     const imageUrl = URL.createObjectURL(file);
     const img = new Image();
     img.onload = () => {
-      const newFloorPlan: FloorPlan = {
+      const newFloorPlan = {
         id: `fp-${Date.now()}`,
         imageUrl,
         width: img.width,
         height: img.height,
-        rooms: []
+        rooms: [],
+        sourceFileName: file.name
       };
-      setFloorPlan(newFloorPlan);
+      storeFloorPlanSource(newFloorPlan.id, file);
+      addFloor(newFloorPlan);
     };
     img.src = imageUrl;
   };
 
-  const handleRoomsUpdate = (rooms: FloorPlanRoom[]) => {
-    if (floorPlan) {
-      setFloorPlan({ ...floorPlan, rooms });
+  const handlePdfPagesImport = async (pages: PdfPageSelection[], options: RasterizeOptions) => {
+    if (!pendingPdf) return;
+    const file = pendingPdf;
+    let pdf: PdfDocument | null = null;
+    try {
+      pdf = await loadPdfDocument(file);
+      // Every level cut from this file points at one stored copy of it
+      const sourceId = `fp-${Date.now()}`;
+      storeFloorPlanSource(sourceId, file);
+      for (const { pageNumber, level } of pages) {
+        const raster = await rasterizePdfPage(pdf, pageNumber, options);
+        const newFloorPlan = {
+          id: `fp-${Date.now()}-${pageNumber}`,
+          level,
+          imageUrl: URL.createObjectURL(raster.blob),
+          width: raster.width,
+          height: raster.height,
+          rooms: [],
+          sourceFileName: file.name,
+          sourceId,
+          labels: raster.labels
+        };
+        addFloor(newFloorPlan);
+      }
+      toast.success(`Imported ${pages.length} level${pages.length !== 1 ? 's' : ''} from ${file.name}`);
+      setPendingPdf(null);
+    } catch (e) {
+      console.error('Failed to rasterize PDF', e);
+      toast.error("Failed to import PDF pages");
+    } finally {
+      pdf?.destroy();
     }
   };
 
-  const handleFloorPlanRoomSelect = (roomId: string | null) => {
-    setSelectedRoomId(roomId);
+  const handleDxfImport = async (drawing: DxfDrawing, options: DxfImportOptions) => {
+    if (!pendingDxf) return;
+    const file = pendingDxf;
+    try {
+      const plan = await importDxfFloorPlan(drawing, options);
+      const id = `fp-${Date.now()}`;
+      const newFloorPlan = {
+        id,
+        level: options.level,
+        imageUrl: URL.createObjectURL(plan.blob),
+        width: plan.width,
+        height: plan.height,
+        rooms: plan.rooms.map((room, index) => ({ id: `room-${Date.now()}-${index}`, ...room, level: options.level })),
+        sourceFileName: file.name,
+        pixelsPerMetre: plan.pixelsPerMetre,
+        labels: plan.labels
+      };
+      storeFloorPlanSource(id, file);
+      addFloor(newFloorPlan);
+      toast.success(`Imported ${plan.rooms.length} room${plan.rooms.length !== 1 ? 's' : ''} from ${file.name}`);
+      setPendingDxf(null);
+    } catch (e) {
+      console.error('Failed to import DXF', e);
+      toast.error("Failed to import DXF floor plan");
+    }
   };
 
-  const getCurrentRoom = (): Room | null => {
-    if (selectedRoomId) {
-      return rooms.find(room => room.id === selectedRoomId) || null;
+  const handleRoomsUpdate = (rooms: FloorPlanRoom[], options?: DispatchOptions) => {
+    if (floorPlan) {
+      dispatch({ type: "updateBuilding", update: prev => updateFloor(prev, floorPlan.id, floor => ({ ...floor, rooms })) }, options);
     }
+  };
 
-    // Auto-detect based on current panorama
-    const assignment = assignments.find(a => a.panoramaIds.includes(currentNodeId));
-    if (assignment) {
-      return rooms.find(room => room.id === assignment.roomId) || null;
-    }
-    
-    return null;
+  // Deleting through the store unlinks the panoramas attached to the room
+  const handleRoomDelete = (roomId: string) => {
+    dispatch({ type: "deletePolygons", polygonIds: [roomId] });
+  };
+
+  const handleHotspotsChange = (nodeId: string, hotspots: PanoramaHotspot[]) => {
+    dispatch({ type: "updatePanoramas", update: prev => prev.map(p => (p.nodeId === nodeId ? { ...p, hotspots } : p)) });
+  };
+
+  const handlePanoramaPlace = (nodeId: string, position: Point | null) => {
+    if (!floorPlan) return;
+    dispatch({
+      type: "updatePanoramas",
+      update: prev => prev.map(p => {
+        if (p.nodeId !== nodeId) return p;
+        // Pin panoramas without a known level to the one they were placed on
+        const floor = floorForPanorama(building, p) ? p.floor : floorPlan.level;
+        return { ...p, floor, position: position ?? undefined };
+      }),
+    });
+  };
+
+  const handleFloorPlanRoomSelect = (roomId: string | null) => {
+    setSelectedRoomId(roomId);
   };
 
   const renderContent = () => {
     switch (activeTab) {
       case "import":
-        return <ImportInterface onImportComplete={handleImportComplete} />;
+        return (
+          <ImportInterface
+            existingRooms={rooms}
+            existingHeaders={headers}
+            levels={levelNames}
+            onImportComplete={handleImportComplete}
+          />
+        );
       
       case "rooms":
         if (rooms.length === 0) {
@@ -213,7 +378,15 @@ const Index = () => {
             rooms={rooms}
             headers={headers}
             onRoomUpdate={handleRoomUpdate}
+            onRoomsUpdate={(updates) => dispatch({ type: "updateRoomsData", updates })}
             onRoomSelect={handleRoomSelect}
+            building={building}
+            panoramas={panoramas}
+            categories={settings.columnCategories}
+            onCategoriesChange={(columnCategories) => dispatch({ type: "updateSettings", patch: { columnCategories } })}
+            onColumnSchemaChange={(column, schema) => dispatch({ type: "updateColumnSchema", column, schema })}
+            views={settings.roomViews}
+            onViewsChange={(roomViews) => dispatch({ type: "updateSettings", patch: { roomViews } })}
           />
         );
       
@@ -221,10 +394,29 @@ const Index = () => {
         return (
           <FloorPlanEditor
             floorPlan={floorPlan}
+            floors={building.floors}
+            onFloorChange={handleFloorChange}
+            onFloorRename={handleFloorRename}
+            onFloorMove={handleFloorMove}
+            onFloorDelete={handleFloorDelete}
+            onFloorCalibrate={handleFloorCalibrate}
+            dataRooms={rooms}
+            headers={headers}
+            areaTolerancePercent={settings.areaTolerancePercent}
+            onAreaToleranceChange={(areaTolerancePercent) =>
+              dispatch({ type: "updateSettings", patch: { areaTolerancePercent } }, { coalesce: "area-tolerance" })
+            }
             onFloorPlanUpload={handleFloorPlanUpload}
             onRoomUpdate={handleRoomsUpdate}
-            selectedRoomId={selectedRoomId}
+            onRoomDelete={handleRoomDelete}
+            selectedRoomId={selectedRoomId ? polygonForRoom(building, selectedRoomId)?.polygon.id : undefined}
             onRoomSelect={handleFloorPlanRoomSelect}
+            panoramas={panoramasOnFloor(building, panoramas, floorPlan?.id ?? null)}
+            onPanoramaPlace={handlePanoramaPlace}
+            onHotspotsGenerate={(suggestions) => {
+              dispatch({ type: "updatePanoramas", update: prev => applyHotspotSuggestions(prev, suggestions) });
+              toast.success(`Added ${suggestions.length} link${suggestions.length !== 1 ? 's' : ''}`);
+            }}
             onPanoramaUpload={async (roomId, files) => {
               // Handle panorama upload with 2:1 validation
               const validFiles: File[] = [];
@@ -264,26 +456,13 @@ const Index = () => {
                   yawOffset: 0,
                   pitchOffset: 0,
                   rollOffset: 0,
-                  roomId: roomId
+                  ...roomLinkFields(project, roomId),
+                  floor: floorPlan?.level
                 }));
                 
-                // Update room panorama count
-                if (floorPlan) {
-                  const updatedRooms = floorPlan.rooms.map(room => 
-                    room.id === roomId 
-                      ? { ...room, panoramaCount: (room.panoramaCount || 0) + validFiles.length }
-                      : room
-                  );
-                  setFloorPlan({ ...floorPlan, rooms: updatedRooms });
-                }
-                
-                // Add to global panoramas list
-                setPanoramas(prev => {
-                  const updated = [...prev, ...newPanos];
-                  // Set current node to the first of the new uploads
-                  setCurrentNodeId(newPanos[0].nodeId);
-                  return updated;
-                });
+                // Add to global panoramas list and show the first of the new uploads
+                dispatch({ type: "updatePanoramas", update: prev => [...prev, ...newPanos] });
+                setCurrentNodeId(newPanos[0].nodeId);
                 
                 const roomName = floorPlan?.rooms.find(r => r.id === roomId)?.name || roomId;
                 toast.success(`${validFiles.length} panorama${validFiles.length > 1 ? 's' : ''} uploaded and assigned to ${roomName}`);
@@ -299,7 +478,11 @@ const Index = () => {
             rooms={rooms}
             headers={headers}
             floorPlan={floorPlan}
-            onFloorPlanRoomsUpdate={handleRoomsUpdate}
+            floors={building.floors}
+            onFloorChange={handleFloorChange}
+            panoramas={panoramas}
+            onLinkPolygon={(polygonId, dataRoomId, name) => dispatch({ type: "linkPolygon", polygonId, dataRoomId, name })}
+            onLinkPolygons={(links) => dispatch({ type: "linkPolygons", links })}
           />
         );
 
@@ -307,8 +490,9 @@ const Index = () => {
         return (
           <PanoramasManager
             panoramas={panoramas}
-            onChange={setPanoramas}
-            rooms={rooms.map(r => ({ id: r.id, name: r.data[1] || r.data[0] || r.id }))}
+            onChange={(items) => dispatch({ type: "updatePanoramas", update: () => items })}
+            onAssignRoom={(nodeId, roomKey) => dispatch({ type: "assignPanoramas", links: [{ nodeId, roomKey }] })}
+            rooms={roomOptions(project)}
           />
         );
 
@@ -327,9 +511,8 @@ const Index = () => {
           <AssignmentInterface
             rooms={rooms}
             headers={headers}
-            assignments={assignments}
             panoramas={panoramas}
-            onAssignmentUpdate={setAssignments}
+            onAssign={(links) => dispatch({ type: "assignPanoramas", links })}
             onRequestUpload={() => setActiveTab("panoramas")}
           />
         );
@@ -337,14 +520,20 @@ const Index = () => {
       case "viewer":
         return (
           <ThreePaneViewer
+            building={building}
             floorPlan={floorPlan}
+            onFloorChange={handleFloorChange}
             rooms={rooms}
             headers={headers}
             panoramas={panoramas}
             selectedRoomId={selectedRoomId}
             currentNodeId={currentNodeId}
+            areaTolerancePercent={settings.areaTolerancePercent}
+            columnCategories={settings.columnCategories}
+            roomViews={settings.roomViews}
             onRoomSelect={handleFloorPlanRoomSelect}
             onPanoramaChange={setCurrentNodeId}
+            onHotspotsChange={handleHotspotsChange}
           />
         );
       
@@ -355,10 +544,38 @@ const Index = () => {
 
   return (
     <div className="min-h-screen bg-background">
-      <Header activeTab={activeTab} onTabChange={setActiveTab} />
+      <Header
+        activeTab={activeTab}
+        onTabChange={setActiveTab}
+        onSaveProject={handleSaveProject}
+        onOpenProject={handleOpenProject}
+        onUndo={undo}
+        onRedo={redo}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        linkIssueCount={linkIssues.length}
+        onShowLinkIssues={() => setShowLinkIssues(true)}
+      />
       <main className="p-6">
         {renderContent()}
       </main>
+      <PdfPagePicker
+        file={pendingPdf}
+        building={building}
+        onCancel={() => setPendingPdf(null)}
+        onConfirm={handlePdfPagesImport}
+      />
+      <DxfImportDialog
+        file={pendingDxf}
+        defaultLevel={defaultLevelName(building)}
+        onCancel={() => setPendingDxf(null)}
+        onConfirm={handleDxfImport}
+      />
+      <LinkIssuesDialog
+        open={showLinkIssues}
+        issues={linkIssues}
+        onOpenChange={setShowLinkIssues}
+      />
     </div>
   );
 };
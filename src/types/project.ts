@@ -0,0 +1,171 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Columns holding the fields the app reads itself; unset fields fall back to detection. */
+export interface RoomFieldMap {
+  id: number;
+  name: number;
+  level?: number;
+  area?: number;
+}
+
+export type ColumnType = "text" | "number" | "date" | "enum" | "boolean" | "rag";
+
+/** How a column's cells are edited and validated. See lib/column-schema.ts. */
+export interface ColumnSchema {
+  type: ColumnType;
+  unit?: string; // number columns, e.g. "m²"
+  options?: string[]; // enum columns
+  overridden?: boolean; // set by hand rather than inferred; kept across re-imports
+}
+
+export interface RoomHeaders {
+  row1: string[]; // column names
+  row2: string[]; // column codes (empty when the file has a single header row)
+  fields?: RoomFieldMap;
+  schema?: ColumnSchema[]; // one per column
+}
+
+/** The workbook sheet a room was imported from, and the building level it stands for. */
+export interface RoomSource {
+  sheet: string;
+  level?: string;
+}
+
+export interface Room {
+  id: string;
+  data: any[];
+  source?: RoomSource;
+}
+
+/** Link from one panorama to another, placed at a view direction in the source image. */
+export interface PanoramaHotspot {
+  id: string;
+  yaw: number;
+  pitch: number;
+  targetNodeId: string;
+  // Direction to face on arrival; the target's own offsets are used when unset
+  targetYaw?: number;
+  targetPitch?: number;
+}
+
+export interface PanoramaItem {
+  nodeId: string;
+  title: string;
+  floor?: string;
+  fileName?: string;
+  imageUrl?: string;
+  width?: number;
+  height?: number;
+  yawOffset?: number;
+  pitchOffset?: number;
+  rollOffset?: number;
+  metadata?: any;
+  // A panorama belongs to one room: the spreadsheet room, or a polygon that has no
+  // spreadsheet room yet. See lib/room-links.ts.
+  roomId?: string;
+  polygonId?: string;
+  position?: Point; // Capture point on its floor plan, in image pixels
+  hotspots?: PanoramaHotspot[];
+}
+
+export interface FloorPlanRoom {
+  id: string;
+  name: string;
+  polygon: Point[];
+  level?: string;
+  rag?: 'Minimal' | 'Minor' | 'Significant';
+  notes?: string;
+  panoramas?: PanoramaItem[];
+  panoramaCount?: number;
+  assignedDataId?: string; // Link to imported room data
+}
+
+/** Reference line measured on the plan: `metres` is the real distance between the two points. */
+export interface FloorPlanCalibration {
+  start: Point;
+  end: Point;
+  metres: number;
+}
+
+/** Text printed on a vector PDF plan, centred at `position` in image pixels. See lib/plan-labels.ts. */
+export interface PlanLabel {
+  text: string;
+  position: Point;
+}
+
+export interface FloorPlan {
+  id: string;
+  level: string; // Display name of the storey, e.g. "Ground Floor"
+  imageUrl: string;
+  width: number;
+  height: number;
+  rooms: FloorPlanRoom[];
+  sourceFileName?: string; // Original upload (PDF or image), kept alongside the raster
+  sourceId?: string; // Key of the stored upload when several levels share one file; defaults to the floor id
+  pixelsPerMetre?: number; // Set by scale calibration; polygons stay in image pixels
+  calibration?: FloorPlanCalibration;
+  labels?: PlanLabel[]; // Room numbers and names read from the source PDF
+}
+
+/** A surveyed building: one floor plan per level, ordered bottom to top. */
+export interface Building {
+  id: string;
+  name: string;
+  floors: FloorPlan[];
+}
+
+export interface CategoryMatcher {
+  type: "prefix" | "contains" | "regex";
+  pattern: string;
+}
+
+/** A group of spreadsheet columns shown together in the rooms table and viewer. */
+export interface ColumnCategory {
+  id: string;
+  name: string;
+  color: string; // key of CATEGORY_COLORS
+  icon: string; // key of CATEGORY_ICONS
+  matchers: CategoryMatcher[];
+}
+
+export type FilterOperator = "equals" | "contains" | "empty" | "notEmpty" | "gt" | "lt" | "in";
+
+/** One condition of a room view. See lib/room-filters.ts. */
+// Views name columns by code (or name) rather than position, so they survive re-imports
+export type RoomFilter =
+  | { type: "column"; column: string; operator: FilterOperator; value: string }
+  | { type: "panoramas"; present: boolean }
+  | { type: "linked"; present: boolean } // has a polygon on a floor plan
+  | { type: "level"; level: string };
+
+export interface RoomSort {
+  column: string;
+  direction: "asc" | "desc";
+}
+
+/** A named filter and sort over the rooms, shared by the rooms table and the viewer. */
+export interface RoomView {
+  id: string;
+  name: string;
+  match: "all" | "any";
+  filters: RoomFilter[];
+  sort: RoomSort[]; // first entry sorts first
+}
+
+export interface ProjectSettings {
+  areaTolerancePercent: number; // Allowed difference between drawn and scheduled (Q01) area
+  columnCategories: ColumnCategory[]; // in priority order
+  roomViews: RoomView[];
+}
+
+/** Everything the app needs to rebuild a survey session. */
+export interface ProjectState {
+  rooms: Room[];
+  headers: RoomHeaders;
+  panoramas: PanoramaItem[];
+  building: Building;
+  settings: ProjectSettings;
+}